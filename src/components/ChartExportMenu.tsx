@@ -0,0 +1,84 @@
+import { ChartExportOptions, exportDpis, exportFontSizes } from '@/lib/chartExport';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface ChartExportMenuProps {
+  options: ChartExportOptions;
+  onOptionsChange: (options: ChartExportOptions) => void;
+  onExport: (format: 'svg' | 'png') => void;
+  label?: string; // button text; an icon-only button without one
+}
+
+export const ChartExportMenu = ({ options, onOptionsChange, onExport, label }: ChartExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      {label ? (
+        <Button variant="outline" size="sm" className="h-7 gap-1 px-2 font-mono text-xs">
+          <Download className="w-3 h-3" />
+          {label}
+        </Button>
+      ) : (
+        <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Export chart">
+          <Download className="w-3 h-3" />
+        </Button>
+      )}
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="font-mono text-xs">
+      <DropdownMenuItem onSelect={() => onExport('svg')}>SVG (vector)</DropdownMenuItem>
+      <DropdownMenuItem onSelect={() => onExport('png')}>PNG ({options.dpi} dpi)</DropdownMenuItem>
+      <DropdownMenuSeparator />
+
+      <DropdownMenuLabel className="text-xs">PNG resolution</DropdownMenuLabel>
+      <DropdownMenuRadioGroup
+        value={String(options.dpi)}
+        onValueChange={(value) => onOptionsChange({ ...options, dpi: Number(value) })}
+      >
+        {exportDpis.map((dpi) => (
+          <DropdownMenuRadioItem key={dpi} value={String(dpi)} onSelect={(e) => e.preventDefault()}>
+            {dpi} dpi
+          </DropdownMenuRadioItem>
+        ))}
+      </DropdownMenuRadioGroup>
+      <DropdownMenuSeparator />
+
+      <DropdownMenuLabel className="text-xs">Font size</DropdownMenuLabel>
+      <DropdownMenuRadioGroup
+        value={String(options.fontSize)}
+        onValueChange={(value) => onOptionsChange({ ...options, fontSize: Number(value) })}
+      >
+        {exportFontSizes.map((size) => (
+          <DropdownMenuRadioItem key={size} value={String(size)} onSelect={(e) => e.preventDefault()}>
+            {size} px
+          </DropdownMenuRadioItem>
+        ))}
+      </DropdownMenuRadioGroup>
+      <DropdownMenuSeparator />
+
+      <DropdownMenuCheckboxItem
+        checked={options.transparent}
+        onCheckedChange={(checked) => onOptionsChange({ ...options, transparent: checked })}
+        onSelect={(e) => e.preventDefault()}
+      >
+        Transparent background
+      </DropdownMenuCheckboxItem>
+      <DropdownMenuCheckboxItem
+        checked={options.palette === 'print'}
+        onCheckedChange={(checked) => onOptionsChange({ ...options, palette: checked ? 'print' : 'screen' })}
+        onSelect={(e) => e.preventDefault()}
+      >
+        Print palette
+      </DropdownMenuCheckboxItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
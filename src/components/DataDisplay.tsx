@@ -1,21 +1,24 @@
-import { SimulationState } from '@/lib/physics';
+import { SimulationParams, SimulationState } from '@/lib/physics';
+import { totalKineticEnergy } from '@/lib/energy';
+import { doorColor } from '@/lib/doorColors';
 
 interface DataDisplayProps {
   state: SimulationState;
+  params: SimulationParams;
 }
 
-export const DataDisplay = ({ state }: DataDisplayProps) => {
-  const DataCard = ({ 
-    title, 
-    color, 
-    data 
-  }: { 
-    title: string; 
-    color: 'primary' | 'accent';
+export const DataDisplay = ({ state, params }: DataDisplayProps) => {
+  const DataCard = ({
+    title,
+    color,
+    data
+  }: {
+    title: string;
+    color: string;
     data: { label: string; value: string; unit: string }[];
   }) => (
-    <div className={`simulation-panel space-y-3 ${color === 'primary' ? 'border-primary/30' : 'border-accent/30'}`}>
-      <h4 className={`font-mono text-sm uppercase tracking-wider ${color === 'primary' ? 'text-primary' : 'text-accent'}`}>
+    <div className="simulation-panel space-y-3" style={{ borderColor: color }}>
+      <h4 className="font-mono text-sm uppercase tracking-wider" style={{ color }}>
         {title}
       </h4>
       <div className="grid grid-cols-2 gap-3">
@@ -34,26 +37,33 @@ export const DataDisplay = ({ state }: DataDisplayProps) => {
 
   return (
     <div className="grid grid-cols-2 gap-4">
-      <DataCard
-        title="Door A (Sliding Mass)"
-        color="primary"
-        data={[
-          { label: 'ω', value: state.doorA.angularVelocity.toFixed(3), unit: 'rad/s' },
-          { label: 'I', value: state.doorA.momentOfInertia.toFixed(3), unit: 'kg⋅m²' },
-          { label: 'L', value: state.doorA.angularMomentum.toFixed(3), unit: 'kg⋅m²/s' },
-          { label: 'r', value: state.doorA.massRadius.toFixed(3), unit: 'm' },
-        ]}
-      />
-      <DataCard
-        title="Door B (Standard)"
-        color="accent"
-        data={[
-          { label: 'ω', value: state.doorB.angularVelocity.toFixed(3), unit: 'rad/s' },
-          { label: 'I', value: state.doorB.momentOfInertia.toFixed(3), unit: 'kg⋅m²' },
-          { label: 'L', value: state.doorB.angularMomentum.toFixed(3), unit: 'kg⋅m²/s' },
-          { label: 'θ', value: (state.doorB.angle % (2 * Math.PI)).toFixed(3), unit: 'rad' },
-        ]}
-      />
+      {state.doors.map((door, i) => {
+        const config = params.doors[i];
+        if (!config) return null;
+        const hasSlidingMass = config.slidingMasses.length > 0;
+        return (
+          <DataCard
+            key={i}
+            title={`${config.name} (${hasSlidingMass ? 'Sliding Mass' : 'Standard'})`}
+            color={doorColor(i).css}
+            data={[
+              { label: 'ω', value: door.angularVelocity.toFixed(3), unit: 'rad/s' },
+              { label: 'I', value: door.momentOfInertia.toFixed(3), unit: 'kg⋅m²' },
+              { label: 'L', value: door.angularMomentum.toFixed(3), unit: 'kg⋅m²/s' },
+              ...door.masses.map((mass, k) => ({
+                label: door.masses.length > 1 ? `r${k + 1}` : 'r',
+                value: mass.radius.toFixed(3),
+                unit: 'm',
+              })),
+              { label: 'θ', value: (door.angle % (2 * Math.PI)).toFixed(3), unit: 'rad' },
+              { label: 'τ', value: door.torques.net.toFixed(3), unit: 'N⋅m' },
+              { label: 'KE', value: totalKineticEnergy(door.energy).toFixed(3), unit: 'J' },
+              { label: 'J stop', value: door.stopImpulse.toFixed(3), unit: 'kg⋅m²/s' },
+              { label: 'ΔE check', value: door.energy.balance.toExponential(1), unit: 'J' },
+            ]}
+          />
+        );
+      })}
     </div>
   );
 };
@@ -0,0 +1,251 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { SimulationParams } from '@/lib/physics';
+import { IntegratorSettings } from '@/lib/integrators';
+import { tunableParameters } from '@/lib/parameters';
+import { OutcomeMetric, OutcomeSpec, defaultOutcome, outcomeLabels } from '@/lib/outcomes';
+import { DesignSolution, DesignVariable, solveDesign } from '@/lib/design';
+import { Check, Play, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface DesignSolverProps {
+  params: SimulationParams;
+  integratorSettings: IntegratorSettings;
+  onApply: (params: SimulationParams) => void;
+  disabled?: boolean;
+}
+
+// Targets a single door can be designed for (ratios belong in the sweep page)
+const targetMetrics: OutcomeMetric[] = ['closingTime', 'finalAngularVelocity', 'peakKineticEnergy'];
+
+// Declared outside DesignSolver so inputs keep focus across renders
+const NumberField = ({
+  label,
+  value,
+  onChange,
+  disabled,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}) => (
+  <div className="space-y-1">
+    <span className="control-label">{label}</span>
+    <Input
+      type="number"
+      step="any"
+      value={value}
+      onChange={(e) => {
+        const next = Number(e.target.value);
+        if (Number.isFinite(next)) onChange(next);
+      }}
+      disabled={disabled}
+      className="h-8 font-mono text-xs"
+    />
+  </div>
+);
+
+export const DesignSolver = ({ params, integratorSettings, onApply, disabled }: DesignSolverProps) => {
+  const parameters = useMemo(() => tunableParameters(params), [params]);
+  const [outcome, setOutcome] = useState<OutcomeSpec>(defaultOutcome);
+  const [targetValue, setTargetValue] = useState(2.5);
+  const [tolerance, setTolerance] = useState(0.01);
+  const [variables, setVariables] = useState<DesignVariable[]>([]);
+  const [progress, setProgress] = useState<{ start: number; starts: number } | null>(null);
+  const [solutions, setSolutions] = useState<DesignSolution[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running search when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const isRunning = progress !== null;
+  const available = variables.filter((variable) => parameters.some((parameter) => parameter.id === variable.id));
+
+  const toggleVariable = (id: string, checked: boolean) => {
+    const parameter = parameters.find((p) => p.id === id);
+    if (!parameter) return;
+    setVariables(checked
+      ? [...variables, { id, min: parameter.min, max: parameter.max }]
+      : variables.filter((variable) => variable.id !== id));
+  };
+
+  const updateVariable = (id: string, changes: Partial<DesignVariable>) => {
+    setVariables(variables.map((variable) => (variable.id === id ? { ...variable, ...changes } : variable)));
+  };
+
+  const handleSolve = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setSolutions(null);
+    setError(null);
+    setProgress({ start: 0, starts: 0 });
+
+    try {
+      const found = await solveDesign(
+        params,
+        available,
+        { outcome, value: targetValue, tolerance },
+        {
+          integrator: integratorSettings,
+          signal: controller.signal,
+          onProgress: (start, starts) => setProgress({ start, starts }),
+        }
+      );
+      if (abortRef.current === controller && !controller.signal.aborted) setSolutions(found);
+    } catch (solveError) {
+      setError(solveError instanceof Error ? solveError.message : String(solveError));
+    }
+    if (abortRef.current === controller) setProgress(null);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-mono text-primary uppercase tracking-wider">
+        Design Solver
+      </h3>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <span className="control-label">Target</span>
+          <Select
+            value={outcome.metric}
+            onValueChange={(metric) => setOutcome({ ...outcome, metric: metric as OutcomeMetric })}
+            disabled={isRunning || disabled}
+          >
+            <SelectTrigger className="h-8 font-mono text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {targetMetrics.map((metric) => (
+                <SelectItem key={metric} value={metric} className="font-mono text-xs">
+                  {outcomeLabels[metric]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <span className="control-label">Door</span>
+          <Select
+            value={String(outcome.door)}
+            onValueChange={(door) => setOutcome({ ...outcome, door: Number(door) })}
+            disabled={isRunning || disabled}
+          >
+            <SelectTrigger className="h-8 font-mono text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {params.doors.map((door, i) => (
+                <SelectItem key={i} value={String(i)} className="font-mono text-xs">
+                  {door.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <NumberField label="Value" value={targetValue} onChange={setTargetValue} disabled={isRunning || disabled} />
+        <NumberField label="± Tolerance" value={tolerance} onChange={setTolerance} disabled={isRunning || disabled} />
+      </div>
+
+      <div className="space-y-2 max-h-56 overflow-y-auto pr-1">
+        <span className="control-label">Free Parameters</span>
+        {parameters.map((parameter) => {
+          const variable = variables.find((v) => v.id === parameter.id);
+          return (
+            <div key={parameter.id} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`design-${parameter.id}`}
+                  checked={variable !== undefined}
+                  onCheckedChange={(checked) => toggleVariable(parameter.id, checked === true)}
+                  disabled={isRunning || disabled}
+                />
+                <Label htmlFor={`design-${parameter.id}`} className="text-xs text-muted-foreground">
+                  {parameter.label}
+                </Label>
+              </div>
+              {variable && (
+                <div className="grid grid-cols-2 gap-2 pl-6">
+                  <NumberField
+                    label="Min"
+                    value={variable.min}
+                    onChange={(min) => updateVariable(parameter.id, { min })}
+                    disabled={isRunning || disabled}
+                  />
+                  <NumberField
+                    label="Max"
+                    value={variable.max}
+                    onChange={(max) => updateVariable(parameter.id, { max })}
+                    disabled={isRunning || disabled}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {isRunning ? (
+        <Button onClick={handleCancel} variant="secondary" size="sm" className="w-full gap-1 font-mono text-xs">
+          <Square className="w-3 h-3" />
+          Cancel (start {Math.min(progress.start + 1, progress.starts)} / {progress.starts})
+        </Button>
+      ) : (
+        <Button
+          onClick={handleSolve}
+          size="sm"
+          className="w-full gap-1 font-mono text-xs"
+          disabled={available.length === 0 || tolerance <= 0 || disabled}
+        >
+          <Play className="w-3 h-3" />
+          Solve
+        </Button>
+      )}
+      {error && <p className="text-xs font-mono text-destructive">{error}</p>}
+
+      {solutions && (
+        <div className="space-y-3 text-xs font-mono">
+          {solutions.map((solution, i) => (
+            <div key={i} className="space-y-1 pt-2 border-t border-border/50">
+              {solution.values.map((entry) => (
+                <div key={entry.id} className="flex justify-between gap-2">
+                  <span className="text-muted-foreground">{entry.label}</span>
+                  <span>{entry.value.toPrecision(4)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between gap-2">
+                <span className={solution.feasible ? 'text-primary' : 'text-destructive'}>
+                  {solution.feasible ? 'Feasible' : 'Closest (infeasible)'}
+                </span>
+                <span>
+                  {Number.isFinite(solution.achieved) ? solution.achieved.toPrecision(4) : '—'}
+                </span>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full gap-1 font-mono text-xs"
+                onClick={() => onApply(solution.params)}
+                disabled={disabled}
+              >
+                <Check className="w-3 h-3" />
+                Apply
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { DoorConfig } from '@/lib/physics';
+import { SLOW_ANGULAR_VELOCITY, SimulationEvent, eventLabels } from '@/lib/simulate';
+import { doorColor } from '@/lib/doorColors';
+
+interface EventLogProps {
+  events: SimulationEvent[];
+  doors: DoorConfig[];
+}
+
+export const EventLog = ({ events, doors }: EventLogProps) => (
+  <div className="space-y-3">
+    <h3 className="text-sm font-mono text-primary uppercase tracking-wider">
+      Event Log
+    </h3>
+
+    {events.length === 0 ? (
+      <p className="text-xs font-mono text-muted-foreground">
+        No events yet. Slide completion, 90° arrival, stop impacts, |ω| &lt; {SLOW_ANGULAR_VELOCITY} rad/s
+        and settling are logged with their exact times.
+      </p>
+    ) : (
+      <div className="max-h-40 overflow-y-auto pr-1 space-y-1 text-xs font-mono">
+        {events.map((event, i) => (
+          <div key={i} className="grid grid-cols-[6rem_1fr] gap-2">
+            <span className="text-muted-foreground">t = {event.time.toFixed(6)}</span>
+            <span>
+              <span style={{ color: doorColor(event.door).css }}>●</span>{' '}
+              {doors[event.door]?.name ?? `Door ${event.door + 1}`}: {eventLabels[event.kind]}
+              {event.mass !== undefined && doors[event.door]?.slidingMasses.length > 1 && ` (mass ${event.mass + 1})`}
+            </span>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
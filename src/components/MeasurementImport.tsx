@@ -0,0 +1,264 @@
+import { useRef, useState } from 'react';
+import { DataPoint, DoorConfig } from '@/lib/physics';
+import {
+  AngleUnit,
+  AngularVelocityUnit,
+  ColumnMapping,
+  CsvTable,
+  MeasuredSeries,
+  TimeUnit,
+  angleUnits,
+  angularVelocityUnits,
+  calculateResiduals,
+  createMeasuredSeries,
+  guessColumnMapping,
+  parseCsv,
+  rmsResidual,
+  timeUnits,
+} from '@/lib/measurements';
+import { doorColor } from '@/lib/doorColors';
+import { Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+
+interface MeasurementImportProps {
+  doors: DoorConfig[];
+  data: DataPoint[];
+  measurements: MeasuredSeries[];
+  onMeasurementsChange: (measurements: MeasuredSeries[]) => void;
+}
+
+// A CSV file waiting for its columns to be mapped
+interface PendingImport {
+  name: string;
+  table: CsvTable;
+  mapping: ColumnMapping;
+  door: number;
+}
+
+// Select value for an unmapped column
+const NONE = 'none';
+
+// Declared outside MeasurementImport so the selects keep their identity across renders
+const MappingSelect = ({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+}) => (
+  <div className="space-y-1">
+    <span className="control-label">{label}</span>
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 font-mono text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value} className="font-mono text-xs">
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export const MeasurementImport = ({ doors, data, measurements, onMeasurementsChange }: MeasurementImportProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    const table = parseCsv(await file.text());
+    if (table.headers.length < 2 || table.rows.length === 0) {
+      setError(`${file.name}: no data columns found`);
+      return;
+    }
+    setError(null);
+    setPending({ name: file.name, table, mapping: guessColumnMapping(table.headers), door: 0 });
+  };
+
+  const updateMapping = (changes: Partial<ColumnMapping>) => {
+    if (pending) setPending({ ...pending, mapping: { ...pending.mapping, ...changes } });
+  };
+
+  const handleImport = () => {
+    if (!pending) return;
+    onMeasurementsChange([
+      ...measurements,
+      createMeasuredSeries(pending.table, pending.mapping, pending.name, pending.door),
+    ]);
+    setPending(null);
+  };
+
+  const columnOptions = (pending?.table.headers ?? []).map((header, i) => ({
+    value: String(i),
+    label: header || `Column ${i + 1}`,
+  }));
+  const optionalColumn = (index: number | null) => (index === null ? NONE : String(index));
+  const parseOptionalColumn = (value: string) => (value === NONE ? null : Number(value));
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-mono text-primary uppercase tracking-wider">
+        Measured Data
+      </h3>
+
+      {measurements.map((series, k) => {
+        const residuals = calculateResiduals(series, data);
+        const omegaRms = rmsResidual(residuals, 'omega');
+        const thetaRms = rmsResidual(residuals, 'theta');
+        return (
+          <div key={k} className="space-y-1 text-xs font-mono">
+            <div className="flex justify-between items-center gap-2">
+              <span className="flex items-center gap-2 truncate" title={series.name}>
+                <span className="w-2 h-2 shrink-0 rounded-full" style={{ backgroundColor: doorColor(series.door).css }} />
+                {series.name}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                onClick={() => onMeasurementsChange(measurements.filter((_, n) => n !== k))}
+                aria-label={`Remove ${series.name}`}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+            <p className="text-muted-foreground pl-4">
+              vs {doors[series.door]?.name ?? '—'} · {series.points.length} points
+            </p>
+            <p className="text-muted-foreground pl-4">
+              RMS ω {Number.isFinite(omegaRms) ? omegaRms.toFixed(3) : '—'} rad/s
+              · θ {Number.isFinite(thetaRms) ? thetaRms.toFixed(3) : '—'} rad
+            </p>
+          </div>
+        );
+      })}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.txt,text/csv"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = '';
+        }}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full gap-1 font-mono text-xs"
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <Upload className="w-3 h-3" />
+        Import CSV
+      </Button>
+      {error && <p className="text-xs font-mono text-destructive">{error}</p>}
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        {pending && (
+          <DialogContent className="font-mono">
+            <DialogHeader>
+              <DialogTitle className="text-sm">Map Columns</DialogTitle>
+              <DialogDescription className="text-xs">
+                {pending.name} · {pending.table.rows.length} rows
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-2 gap-3">
+              <MappingSelect
+                label="Time"
+                value={String(pending.mapping.time)}
+                options={columnOptions}
+                onChange={(value) => updateMapping({ time: Number(value) })}
+              />
+              <MappingSelect
+                label="Time Unit"
+                value={pending.mapping.timeUnit}
+                options={timeUnits.map((unit) => ({ value: unit, label: unit }))}
+                onChange={(value) => updateMapping({ timeUnit: value as TimeUnit })}
+              />
+              <MappingSelect
+                label="ω"
+                value={optionalColumn(pending.mapping.omega)}
+                options={[{ value: NONE, label: '—' }, ...columnOptions]}
+                onChange={(value) => updateMapping({ omega: parseOptionalColumn(value) })}
+              />
+              <MappingSelect
+                label="ω Unit"
+                value={pending.mapping.omegaUnit}
+                options={angularVelocityUnits.map((unit) => ({ value: unit, label: unit }))}
+                onChange={(value) => updateMapping({ omegaUnit: value as AngularVelocityUnit })}
+              />
+              <MappingSelect
+                label="θ"
+                value={optionalColumn(pending.mapping.theta)}
+                options={[{ value: NONE, label: '—' }, ...columnOptions]}
+                onChange={(value) => updateMapping({ theta: parseOptionalColumn(value) })}
+              />
+              <MappingSelect
+                label="θ Unit"
+                value={pending.mapping.thetaUnit}
+                options={angleUnits.map((unit) => ({ value: unit, label: unit }))}
+                onChange={(value) => updateMapping({ thetaUnit: value as AngleUnit })}
+              />
+              <MappingSelect
+                label="Compare With"
+                value={String(pending.door)}
+                options={doors.map((door, i) => ({ value: String(i), label: door.name }))}
+                onChange={(value) => setPending({ ...pending, door: Number(value) })}
+              />
+              <div className="space-y-1">
+                <span className="control-label">Time Offset (s)</span>
+                <Input
+                  type="number"
+                  step="any"
+                  value={pending.mapping.timeOffset}
+                  onChange={(e) => {
+                    const timeOffset = Number(e.target.value);
+                    if (Number.isFinite(timeOffset)) updateMapping({ timeOffset });
+                  }}
+                  className="h-8 font-mono text-xs"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-between items-center">
+              <Label htmlFor="measurement-invert" className="text-xs text-muted-foreground">
+                Invert Sign (sensor axis reversed)
+              </Label>
+              <Switch
+                id="measurement-invert"
+                checked={pending.mapping.invertSign}
+                onCheckedChange={(invertSign) => updateMapping({ invertSign })}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" size="sm" onClick={() => setPending(null)}>Cancel</Button>
+              <Button
+                size="sm"
+                onClick={handleImport}
+                disabled={pending.mapping.omega === null && pending.mapping.theta === null}
+              >
+                Import
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  );
+};
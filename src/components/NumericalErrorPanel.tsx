@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { SimulationParams, SimulationState, createDataPoint } from '@/lib/physics';
+import {
+  PeakReferenceErrors,
+  ReferenceErrorPoint,
+  calculateReferenceError,
+  calculateReferenceErrors,
+  createReferenceSolutions,
+  referenceLimitLabels,
+  updatePeakReferenceErrors,
+} from '@/lib/analytic';
+import { DataRecording, recordingView } from '@/lib/recording';
+import { doorColor } from '@/lib/doorColors';
+
+interface NumericalErrorPanelProps {
+  state: SimulationState;
+  params: SimulationParams;
+  recording: DataRecording; // every recorded step, for the maximum errors and the graph
+  sampleCount: number; // recorded samples drawn so far
+}
+
+// Errors at round-off level are drawn at this floor of the log axis
+const ERROR_FLOOR = 1e-16;
+
+const formatError = (value: number | undefined) => (value === undefined ? '—' : value.toExponential(1));
+
+export const NumericalErrorPanel = ({ state, params, recording, sampleCount }: NumericalErrorPanelProps) => {
+  const solutions = useMemo(() => createReferenceSolutions(params), [params]);
+  const data = useMemo(() => recordingView(recording, ['theta', 'L'], sampleCount), [recording, sampleCount]);
+  const errors = useMemo(() => calculateReferenceErrors(data, solutions), [data, solutions]);
+  const current = createDataPoint(state);
+
+  // The recording grows in place, so the maxima are carried over in state and only new
+  // steps checked; a new recording or new parameters start them again
+  const [peakState, setPeakState] = useState<{
+    recording: DataRecording;
+    solutions: typeof solutions;
+    peaks: PeakReferenceErrors;
+  } | null>(null);
+  useEffect(() => {
+    setPeakState((prev) => {
+      const previous = prev && prev.recording === recording && prev.solutions === solutions && prev.peaks.count <= sampleCount
+        ? prev.peaks
+        : { count: 0, doors: [] };
+      return { recording, solutions, peaks: updatePeakReferenceErrors(previous, recording.samples, solutions, sampleCount) };
+    });
+  }, [recording, sampleCount, solutions]);
+  const peaks = peakState && peakState.recording === recording && peakState.solutions === solutions
+    ? peakState.peaks
+    : undefined;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-mono text-primary uppercase tracking-wider">
+        Numerical Error vs Exact Solution
+      </h3>
+
+      <div className="grid grid-cols-2 gap-4 text-xs font-mono">
+        {params.doors.map((door, i) => {
+          const solution = solutions[i];
+          const error = current.doors[i] ? calculateReferenceError(solution, state.time, current.doors[i]) : null;
+          return (
+            <div key={i} className="space-y-1">
+              <span style={{ color: doorColor(i).css }}>{door.name}</span>
+              {solution ? (
+                <>
+                  <p className="text-muted-foreground">{solution.equation}</p>
+                  <div className="grid grid-cols-2 gap-x-2">
+                    <span className="text-muted-foreground">|Δθ|</span>
+                    <span>{formatError(error?.theta)} rad</span>
+                    <span className="text-muted-foreground">max |Δθ|</span>
+                    <span>{formatError(peaks?.doors[i]?.theta)} rad</span>
+                    <span className="text-muted-foreground">ΔL</span>
+                    <span>{formatError(error?.L)} kg⋅m²/s</span>
+                    <span className="text-muted-foreground">max |ΔL|</span>
+                    <span>{formatError(peaks?.doors[i]?.L)} kg⋅m²/s</span>
+                  </div>
+                  <p className="text-muted-foreground">
+                    Valid to t = {solution.validUntil.toFixed(3)} s ({referenceLimitLabels[solution.limit]})
+                  </p>
+                </>
+              ) : (
+                <p className="text-muted-foreground">No closed form (free slide, or torques with a moving mass)</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {solutions.some((solution) => solution !== null) && (
+        <div className="graph-container p-4">
+          <h3 className="text-sm font-mono text-primary mb-2 flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full bg-muted-foreground" />
+            |θ_sim − θ_exact| (rad)
+          </h3>
+          <ResponsiveContainer width="100%" height={120}>
+            <LineChart data={errors} margin={{ top: 10, right: 20, left: 10, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--grid-line))" strokeOpacity={0.5} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                axisLine={{ stroke: 'hsl(var(--border))' }}
+                tickLine={{ stroke: 'hsl(var(--border))' }}
+                tickFormatter={(value: number) => value.toFixed(2)}
+              />
+              <YAxis
+                scale="log"
+                domain={[ERROR_FLOOR, 'auto']}
+                allowDataOverflow
+                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                axisLine={{ stroke: 'hsl(var(--border))' }}
+                tickLine={{ stroke: 'hsl(var(--border))' }}
+                tickFormatter={(value: number) => value.toExponential(0)}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px',
+                  fontSize: '12px',
+                }}
+                labelFormatter={(value) => `t = ${Number(value).toFixed(2)}s`}
+                formatter={(value: number) => value.toExponential(2)}
+              />
+              {params.doors.map((door, i) => (
+                <Line
+                  key={i}
+                  type="linear"
+                  dataKey={(point: ReferenceErrorPoint) => {
+                    const error = point.doors[i];
+                    return error ? Math.max(error.theta, ERROR_FLOOR) : undefined;
+                  }}
+                  name={door.name}
+                  stroke={doorColor(i).css}
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,19 @@
-import { SimulationParams } from '@/lib/physics';
+import {
+  DoorConfig,
+  DoorPropertyKey,
+  SimulationParams,
+  SlidingMassParams,
+  createDoorConfig,
+  defaultSlidingMass,
+  doorProperty,
+  resolveDoors,
+} from '@/lib/physics';
+import { doorColor } from '@/lib/doorColors';
+import { Link2, Link2Off, Plus, X } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
 
 interface ParameterControlsProps {
   params: SimulationParams;
@@ -8,19 +21,135 @@ interface ParameterControlsProps {
   disabled?: boolean;
 }
 
+// Upper limit on doors compared side by side
+const MAX_DOORS = 6;
+
+interface SliderControl {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+}
+
+// Link of a door property to the first door's value
+interface SliderLink {
+  linked: boolean;
+  target: string; // name of the door linked to
+  onToggle: (linked: boolean) => void;
+}
+
+// Declared outside ParameterControls so sliders keep their identity (and drag state) across renders
+const ParameterSlider = ({
+  control,
+  onChange,
+  disabled,
+  link,
+}: {
+  control: SliderControl;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+  link?: SliderLink;
+}) => (
+  <div className="space-y-2">
+    <div className="flex justify-between items-center">
+      <Label className="text-xs text-muted-foreground">
+        {control.label}
+      </Label>
+      <div className="flex items-center gap-1">
+        {link && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-5 w-5"
+            onClick={() => link.onToggle(!link.linked)}
+            disabled={disabled}
+            aria-pressed={link.linked}
+            aria-label={`Link to ${link.target}`}
+            title={link.linked ? `Linked to ${link.target}` : `Link to ${link.target}`}
+          >
+            {link.linked ? <Link2 className="w-3 h-3 text-primary" /> : <Link2Off className="w-3 h-3" />}
+          </Button>
+        )}
+        <span className="font-mono text-sm text-foreground">
+          {control.value.toFixed(control.step < 1 ? 2 : 0)}
+        </span>
+      </div>
+    </div>
+    <Slider
+      value={[control.value]}
+      onValueChange={(v) => onChange(v[0])}
+      min={control.min}
+      max={control.max}
+      step={control.step}
+      disabled={disabled || link?.linked}
+      className="cursor-pointer"
+    />
+  </div>
+);
+
 export const ParameterControls = ({ params, onParamsChange, disabled }: ParameterControlsProps) => {
-  const updateParam = (key: keyof SimulationParams, value: number) => {
+  const updateParam = <K extends keyof SimulationParams>(key: K, value: SimulationParams[K]) => {
     onParamsChange({ ...params, [key]: value });
   };
 
-  const controls = [
+  const updateDoor = (doorIndex: number, changes: Partial<DoorConfig>) => {
+    updateParam('doors', params.doors.map((door, i) => i === doorIndex ? { ...door, ...changes } : door));
+  };
+
+  // Unlinking starts from the linked value, so the door only changes once its slider moves
+  const setLinked = (doorIndex: number, key: DoorPropertyKey, linked: boolean) => {
+    const door = params.doors[doorIndex];
+    updateDoor(doorIndex, {
+      [key]: doorProperty(params, doorIndex, key),
+      links: { ...door.links, [key]: linked },
+    });
+  };
+
+  const updateSlidingMass = (doorIndex: number, massIndex: number, changes: Partial<SlidingMassParams>) => {
+    updateParam('doors', params.doors.map((door, i) => i !== doorIndex ? door : {
+      ...door,
+      slidingMasses: door.slidingMasses.map((slidingMass, k) =>
+        k === massIndex ? { ...slidingMass, ...changes } : slidingMass
+      ),
+    }));
+  };
+
+  const addSlidingMass = (doorIndex: number) => {
+    updateParam('doors', params.doors.map((door, i) => i !== doorIndex ? door : {
+      ...door,
+      slidingMasses: [...door.slidingMasses, { ...defaultSlidingMass }],
+    }));
+  };
+
+  const removeSlidingMass = (doorIndex: number, massIndex: number) => {
+    updateParam('doors', params.doors.map((door, i) => i !== doorIndex ? door : {
+      ...door,
+      slidingMasses: door.slidingMasses.filter((_, k) => k !== massIndex),
+    }));
+  };
+
+  const addDoor = () => {
+    const usedNames = new Set(params.doors.map((door) => door.name));
+    let index = params.doors.length;
+    while (usedNames.has(createDoorConfig(index, false).name)) index++;
+    updateParam('doors', [...params.doors, createDoorConfig(index, false)]);
+  };
+
+  // Linked values are resolved first, so removing the first door leaves the others unchanged
+  const removeDoor = (doorIndex: number) => {
+    updateParam('doors', resolveDoors(params).filter((_, i) => i !== doorIndex));
+  };
+
+  const doorControls = (doorIndex: number) => [
     {
       key: 'doorMass' as const,
       label: 'Door Mass (kg)',
       min: 10,
       max: 60,
       step: 1,
-      value: params.doorMass,
+      value: doorProperty(params, doorIndex, 'doorMass'),
     },
     {
       key: 'doorWidth' as const,
@@ -28,15 +157,37 @@ export const ParameterControls = ({ params, onParamsChange, disabled }: Paramete
       min: 0.6,
       max: 1.4,
       step: 0.1,
-      value: params.doorWidth,
+      value: doorProperty(params, doorIndex, 'doorWidth'),
     },
     {
-      key: 'slidingMass' as const,
+      key: 'initialAngularVelocity' as const,
+      label: 'Initial ω₁ (rad/s)',
+      min: 0.5,
+      max: 4.0,
+      step: 0.1,
+      value: doorProperty(params, doorIndex, 'initialAngularVelocity'),
+    },
+  ];
+
+  const controls = [
+    {
+      key: 'doorStopRestitution' as const,
+      label: 'Door-Stop Restitution e',
+      min: 0,
+      max: 1,
+      step: 0.05,
+      value: params.doorStopRestitution,
+    },
+  ];
+
+  const slidingMassControls = (slidingMass: SlidingMassParams) => [
+    {
+      key: 'mass' as const,
       label: 'Sliding Mass (kg)',
       min: 1,
       max: 15,
       step: 0.5,
-      value: params.slidingMass,
+      value: slidingMass.mass,
     },
     {
       key: 'initialRadius' as const,
@@ -44,7 +195,7 @@ export const ParameterControls = ({ params, onParamsChange, disabled }: Paramete
       min: 0.05,
       max: 0.3,
       step: 0.01,
-      value: params.initialRadius,
+      value: slidingMass.initialRadius,
     },
     {
       key: 'finalRadius' as const,
@@ -52,15 +203,7 @@ export const ParameterControls = ({ params, onParamsChange, disabled }: Paramete
       min: 0.4,
       max: 1.0,
       step: 0.05,
-      value: params.finalRadius,
-    },
-    {
-      key: 'initialAngularVelocity' as const,
-      label: 'Initial ω₁ (rad/s)',
-      min: 0.5,
-      max: 4.0,
-      step: 0.1,
-      value: params.initialAngularVelocity,
+      value: slidingMass.finalRadius,
     },
     {
       key: 'slideDuration' as const,
@@ -68,39 +211,144 @@ export const ParameterControls = ({ params, onParamsChange, disabled }: Paramete
       min: 0.5,
       max: 3.0,
       step: 0.1,
-      value: params.slideDuration,
+      value: slidingMass.slideDuration,
+      slideMode: 'prescribed' as const,
     },
-  ];
+    {
+      key: 'trackFriction' as const,
+      label: 'Track Friction μ',
+      min: 0,
+      max: 0.5,
+      step: 0.01,
+      value: slidingMass.trackFriction,
+      slideMode: 'free' as const,
+    },
+    {
+      key: 'endStopRestitution' as const,
+      label: 'End-Stop Restitution e',
+      min: 0,
+      max: 1,
+      step: 0.05,
+      value: slidingMass.endStopRestitution,
+      slideMode: 'free' as const,
+    },
+  ].filter((control) => !('slideMode' in control) || control.slideMode === slidingMass.slideMode);
 
   return (
     <div className="space-y-4">
       <h3 className="text-sm font-mono text-primary uppercase tracking-wider">
         Parameters
       </h3>
-      
+
       <div className="space-y-4">
         {controls.map((control) => (
-          <div key={control.key} className="space-y-2">
-            <div className="flex justify-between items-center">
-              <Label className="text-xs text-muted-foreground">
-                {control.label}
-              </Label>
-              <span className="font-mono text-sm text-foreground">
-                {control.value.toFixed(control.step < 1 ? 2 : 0)}
-              </span>
-            </div>
-            <Slider
-              value={[control.value]}
-              onValueChange={(v) => updateParam(control.key, v[0])}
-              min={control.min}
-              max={control.max}
-              step={control.step}
-              disabled={disabled}
-              className="cursor-pointer"
-            />
-          </div>
+          <ParameterSlider
+            key={control.key}
+            control={control}
+            onChange={(value) => updateParam(control.key, value)}
+            disabled={disabled}
+          />
         ))}
       </div>
+
+      {params.doors.map((door, doorIndex) => (
+        <div key={doorIndex} className="space-y-4 pt-3 border-t border-border/50">
+          <div className="flex justify-between items-center">
+            <h4 className="font-mono text-xs uppercase tracking-wider flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: doorColor(doorIndex).css }} />
+              {door.name}
+            </h4>
+            {params.doors.length > 1 && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => removeDoor(doorIndex)}
+                disabled={disabled}
+                aria-label={`Remove ${door.name}`}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+
+          {doorControls(doorIndex).map((control) => (
+            <ParameterSlider
+              key={control.key}
+              control={control}
+              onChange={(value) => updateDoor(doorIndex, { [control.key]: value })}
+              disabled={disabled}
+              link={doorIndex > 0 ? {
+                linked: door.links[control.key],
+                target: params.doors[0].name,
+                onToggle: (linked) => setLinked(doorIndex, control.key, linked),
+              } : undefined}
+            />
+          ))}
+
+          {door.slidingMasses.map((slidingMass, massIndex) => (
+            <div key={massIndex} className="space-y-4 pl-2 border-l border-border/50">
+              <div className="flex justify-between items-center">
+                <Label htmlFor={`free-slide-${doorIndex}-${massIndex}`} className="text-xs text-muted-foreground">
+                  {door.slidingMasses.length > 1 ? `Mass ${massIndex + 1}: ` : ''}Free Slide (r̈ = rω² − μg)
+                </Label>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    id={`free-slide-${doorIndex}-${massIndex}`}
+                    checked={slidingMass.slideMode === 'free'}
+                    onCheckedChange={(checked) =>
+                      updateSlidingMass(doorIndex, massIndex, { slideMode: checked ? 'free' : 'prescribed' })
+                    }
+                    disabled={disabled}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => removeSlidingMass(doorIndex, massIndex)}
+                    disabled={disabled}
+                    aria-label="Remove sliding mass"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+              {slidingMassControls(slidingMass).map((control) => (
+                <ParameterSlider
+                  key={control.key}
+                  control={control}
+                  onChange={(value) => updateSlidingMass(doorIndex, massIndex, { [control.key]: value })}
+                  disabled={disabled}
+                />
+              ))}
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full gap-1 font-mono text-xs"
+            onClick={() => addSlidingMass(doorIndex)}
+            disabled={disabled}
+          >
+            <Plus className="w-3 h-3" />
+            Sliding Mass
+          </Button>
+        </div>
+      ))}
+
+      {params.doors.length < MAX_DOORS && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full gap-1 font-mono text-xs"
+          onClick={addDoor}
+          disabled={disabled}
+        >
+          <Plus className="w-3 h-3" />
+          Add Door
+        </Button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { SimulationParams } from '@/lib/physics';
+import { IntegratorSettings } from '@/lib/integrators';
+import { MeasuredSeries, lastMeasuredTime } from '@/lib/measurements';
+import { tunableParameters } from '@/lib/parameters';
+import { FitResult, fitParameters, suggestedFitParameters } from '@/lib/fitting';
+import { Check, Play, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface ParameterFittingProps {
+  params: SimulationParams;
+  measurements: MeasuredSeries[];
+  integratorSettings: IntegratorSettings;
+  onApply: (params: SimulationParams) => void;
+  disabled?: boolean;
+}
+
+const confidenceLevels = [0.9, 0.95, 0.99];
+
+const formatValue = (value: number) => (Number.isFinite(value) ? value.toPrecision(4) : '—');
+
+export const ParameterFitting = ({
+  params,
+  measurements,
+  integratorSettings,
+  onApply,
+  disabled,
+}: ParameterFittingProps) => {
+  const parameters = useMemo(() => tunableParameters(params), [params]);
+  const [selected, setSelected] = useState<string[]>(() => suggestedFitParameters(params).slice(0, 1));
+  const [endTime, setEndTime] = useState<number | null>(null);
+  const [confidence, setConfidence] = useState(0.95);
+  const [progress, setProgress] = useState<{ iteration: number; cost: number } | null>(null);
+  const [result, setResult] = useState<FitResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running fit when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const lastMeasured = useMemo(() => Math.max(0, lastMeasuredTime(measurements)), [measurements]);
+  const isRunning = progress !== null;
+  const available = selected.filter((id) => parameters.some((parameter) => parameter.id === id));
+
+  const handleFit = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult(null);
+    setError(null);
+    setProgress({ iteration: 0, cost: NaN });
+
+    try {
+      const fit = await fitParameters(params, measurements, available, {
+        integrator: integratorSettings,
+        confidence,
+        endTime: endTime ?? undefined,
+        signal: controller.signal,
+        onIteration: (iteration, cost) => setProgress({ iteration, cost }),
+      });
+      if (abortRef.current === controller && !controller.signal.aborted) setResult(fit);
+    } catch (fitError) {
+      setError(fitError instanceof Error ? fitError.message : String(fitError));
+    }
+    if (abortRef.current === controller) setProgress(null);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  const toggleParameter = (id: string, checked: boolean) => {
+    setSelected(checked ? [...selected, id] : selected.filter((selectedId) => selectedId !== id));
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-mono text-primary uppercase tracking-wider">
+        Parameter Fit
+      </h3>
+
+      {measurements.length === 0 ? (
+        <p className="text-xs font-mono text-muted-foreground">Import measured data to fit parameters.</p>
+      ) : (
+        <>
+          <div className="space-y-2 max-h-40 overflow-y-auto pr-1">
+            {parameters.map((parameter) => (
+              <div key={parameter.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`fit-${parameter.id}`}
+                  checked={selected.includes(parameter.id)}
+                  onCheckedChange={(checked) => toggleParameter(parameter.id, checked === true)}
+                  disabled={isRunning || disabled}
+                />
+                <Label htmlFor={`fit-${parameter.id}`} className="text-xs text-muted-foreground">
+                  {parameter.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <span className="control-label">Fit Until (s)</span>
+              <Input
+                type="number"
+                step="any"
+                min={0}
+                value={endTime ?? Number(lastMeasured.toFixed(3))}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (Number.isFinite(value)) setEndTime(value);
+                }}
+                disabled={isRunning || disabled}
+                className="h-8 font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="control-label">Confidence</span>
+              <Select
+                value={String(confidence)}
+                onValueChange={(value) => setConfidence(Number(value))}
+                disabled={isRunning || disabled}
+              >
+                <SelectTrigger className="h-8 font-mono text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {confidenceLevels.map((level) => (
+                    <SelectItem key={level} value={String(level)} className="font-mono text-xs">
+                      {level * 100} %
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-[11px] font-mono text-muted-foreground">
+            End the window before the door hits the stop for a smooth fit.
+          </p>
+
+          {isRunning ? (
+            <Button onClick={handleCancel} variant="secondary" size="sm" className="w-full gap-1 font-mono text-xs">
+              <Square className="w-3 h-3" />
+              Cancel (iteration {progress.iteration})
+            </Button>
+          ) : (
+            <Button
+              onClick={handleFit}
+              size="sm"
+              className="w-full gap-1 font-mono text-xs"
+              disabled={available.length === 0 || disabled}
+            >
+              <Play className="w-3 h-3" />
+              Fit (Levenberg–Marquardt)
+            </Button>
+          )}
+          {error && <p className="text-xs font-mono text-destructive">{error}</p>}
+
+          {result && (
+            <div className="space-y-3 text-xs font-mono">
+              {result.parameters.map((parameter) => (
+                <div key={parameter.id} className="space-y-0.5">
+                  <span className="text-muted-foreground">{parameter.label}</span>
+                  <div className="data-value text-sm">
+                    {formatValue(parameter.value)}
+                    <span className="text-xs text-muted-foreground ml-1">
+                      ± {formatValue(parameter.value - parameter.interval[0])} ({confidence * 100} % CI)
+                    </span>
+                  </div>
+                </div>
+              ))}
+              <div className="grid grid-cols-2 gap-2 pt-2 border-t border-border/50">
+                <span className="text-muted-foreground">RMSE</span>
+                <span>{formatValue(result.rmse)}</span>
+                <span className="text-muted-foreground">R²</span>
+                <span>{formatValue(result.rSquared)}</span>
+                <span className="text-muted-foreground">s² (SSR / n − p)</span>
+                <span>{formatValue(result.reducedChiSquared)}</span>
+                <span className="text-muted-foreground">Points</span>
+                <span>{result.points}</span>
+                <span className="text-muted-foreground">Iterations</span>
+                <span>{result.iterations}{result.converged ? '' : ' (not converged)'}</span>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full gap-1 font-mono text-xs"
+                onClick={() => onApply(result.params)}
+                disabled={disabled}
+              >
+                <Check className="w-3 h-3" />
+                Apply Fitted Values
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import { ReplayState, createReplay, replaySpeeds } from '@/lib/replay';
+import { Pause, Play, Radio, Rewind, StepBack, StepForward } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+
+interface ReplayControlsProps {
+  replay: ReplayState | null; // null while showing the live state
+  startTime: number; // s, first recorded state
+  endTime: number; // s, last recorded state
+  timeStep: number; // s between recorded states
+  onReplayChange: (replay: ReplayState | null) => void;
+  onStepFrame: (direction: 1 | -1) => void;
+}
+
+export const ReplayControls = ({
+  replay,
+  startTime,
+  endTime,
+  timeStep,
+  onReplayChange,
+  onStepFrame,
+}: ReplayControlsProps) => {
+  const current = replay ?? createReplay(endTime);
+
+  // Playing from the end of the recording in the playing direction starts over
+  const handlePlay = (direction: 1 | -1) => {
+    const atEnd = direction > 0 ? current.time >= endTime : current.time <= startTime;
+    onReplayChange({
+      ...current,
+      time: atEnd ? (direction > 0 ? startTime : endTime) : current.time,
+      direction,
+      playing: true,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Slider
+        value={[current.time]}
+        onValueChange={(v) => onReplayChange({ ...current, time: v[0], playing: false })}
+        min={startTime}
+        max={endTime}
+        step={timeStep}
+        className="cursor-pointer"
+      />
+      <div className="flex items-center gap-2 font-mono text-xs">
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onStepFrame(-1)}
+          aria-label="Previous step"
+        >
+          <StepBack className="w-3 h-3" />
+        </Button>
+        {current.playing ? (
+          <Button
+            variant="secondary"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onReplayChange({ ...current, playing: false })}
+            aria-label="Pause replay"
+          >
+            <Pause className="w-3 h-3" />
+          </Button>
+        ) : (
+          <>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => handlePlay(-1)}
+              aria-label="Play backwards"
+            >
+              <Rewind className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => handlePlay(1)}
+              aria-label="Play"
+            >
+              <Play className="w-3 h-3" />
+            </Button>
+          </>
+        )}
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onStepFrame(1)}
+          aria-label="Next step"
+        >
+          <StepForward className="w-3 h-3" />
+        </Button>
+
+        <Select
+          value={String(current.speed)}
+          onValueChange={(value) => onReplayChange({ ...current, speed: Number(value) })}
+        >
+          <SelectTrigger className="h-7 w-20 font-mono text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {replaySpeeds.map((speed) => (
+              <SelectItem key={speed} value={String(speed)} className="font-mono text-xs">
+                {speed}×
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <span className="text-muted-foreground">
+          t = <span className="text-foreground">{current.time.toFixed(3)}</span> / {endTime.toFixed(3)} s
+        </span>
+
+        {replay && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-7 gap-1 font-mono text-xs"
+            onClick={() => onReplayChange(null)}
+          >
+            <Radio className="w-3 h-3" />
+            Live
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
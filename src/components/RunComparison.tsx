@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { PinnedRun, comparedMetrics, parameterDifferences } from '@/lib/comparison';
+import { outcomeLabels } from '@/lib/outcomes';
+import { Pin, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface RunComparisonProps {
+  runs: PinnedRun[];
+  pinning?: boolean; // a run is being simulated
+  onPin: (name: string) => void;
+  onRunsChange: (runs: PinnedRun[]) => void;
+}
+
+const formatResult = (value: number) => (Number.isFinite(value) ? value.toPrecision(4) : '—');
+
+export const RunComparison = ({ runs, pinning = false, onPin, onRunsChange }: RunComparisonProps) => {
+  const [name, setName] = useState('');
+  const defaultName = `Run ${runs.length + 1}`;
+  const baseline = runs[0];
+
+  const updateRun = (id: number, changes: Partial<PinnedRun>) => {
+    onRunsChange(runs.map((run) => (run.id === id ? { ...run, ...changes } : run)));
+  };
+
+  const handlePin = () => {
+    if (pinning) return;
+    onPin(name.trim() || defaultName);
+    setName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-mono text-primary uppercase tracking-wider">
+        Run Comparison
+      </h3>
+
+      <div className="flex gap-2">
+        <Input
+          value={name}
+          placeholder={defaultName}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handlePin()}
+          className="h-8 font-mono text-xs"
+        />
+        <Button onClick={handlePin} disabled={pinning} size="sm" className="gap-1 font-mono text-xs">
+          <Pin className="w-3 h-3" />
+          {pinning ? 'Simulating…' : 'Pin Current Parameters'}
+        </Button>
+      </div>
+
+      {runs.length === 0 ? (
+        <p className="text-xs font-mono text-muted-foreground">
+          Pin a configuration to overlay its full run on the graphs, then change parameters and pin again.
+        </p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {runs.map((run) => (
+              <div key={run.id} className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={run.color}
+                  onChange={(e) => updateRun(run.id, { color: e.target.value })}
+                  className="h-6 w-6 shrink-0 cursor-pointer rounded border border-border bg-transparent"
+                  aria-label={`Colour of ${run.name}`}
+                />
+                <Input
+                  value={run.name}
+                  onChange={(e) => updateRun(run.id, { name: e.target.value })}
+                  className="h-7 font-mono text-xs"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  onClick={() => onRunsChange(runs.filter((other) => other.id !== run.id))}
+                  aria-label={`Remove ${run.name}`}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <Table className="font-mono text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-8">Run</TableHead>
+                <TableHead className="h-8">Door</TableHead>
+                {comparedMetrics.map((metric) => (
+                  <TableHead key={metric} className="h-8 text-right">{outcomeLabels[metric]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.flatMap((run) =>
+                run.results.map((results, i) => (
+                  <TableRow key={`${run.id}-${i}`}>
+                    <TableCell className="py-1" style={{ color: run.color }}>{i === 0 ? run.name : ''}</TableCell>
+                    <TableCell className="py-1">{run.params.doors[i].name}</TableCell>
+                    {comparedMetrics.map((metric) => (
+                      <TableCell key={metric} className="py-1 text-right">{formatResult(results[metric])}</TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          {runs.slice(1).map((run) => {
+            const differences = parameterDifferences(baseline.params, run.params);
+            return (
+              <div key={run.id} className="space-y-1 text-xs font-mono">
+                <span style={{ color: run.color }}>{run.name}</span>
+                <span className="text-muted-foreground"> vs {baseline.name}</span>
+                {differences.length === 0 ? (
+                  <p className="text-muted-foreground">Same parameters</p>
+                ) : (
+                  differences.map((difference, k) => (
+                    <div key={k} className="flex justify-between gap-2">
+                      <span className="text-muted-foreground">{difference.label}</span>
+                      <span>{difference.from} → {difference.to}</span>
+                    </div>
+                  ))
+                )}
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,15 +1,40 @@
 import { SimulationState } from '@/lib/physics';
-import { Play, Pause, RotateCcw } from 'lucide-react';
+import { IntegratorMethod, IntegratorSettings, integratorLabels } from '@/lib/integrators';
+import { Play, Pause, RotateCcw, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const timeStepOptions = [0.0001, 0.0005, 0.001, 0.005, 0.01];
+
+// Simulated seconds per wall-clock second
+const timeScaleOptions = [0.05, 0.1, 0.25, 0.5, 1, 2, 5];
 
 interface SimulationControlsProps {
   state: SimulationState;
   onStart: () => void;
   onPause: () => void;
   onReset: () => void;
+  integratorSettings: IntegratorSettings;
+  onIntegratorChange: (settings: IntegratorSettings) => void;
+  onExport: (format: 'csv' | 'json') => void;
+  timeScale: number;
+  onTimeScaleChange: (timeScale: number) => void;
+  wallTime: number; // wall-clock seconds the current run has been playing
 }
 
-export const SimulationControls = ({ state, onStart, onPause, onReset }: SimulationControlsProps) => {
+export const SimulationControls = ({
+  state,
+  onStart,
+  onPause,
+  onReset,
+  integratorSettings,
+  onIntegratorChange,
+  onExport,
+  timeScale,
+  onTimeScaleChange,
+  wallTime,
+}: SimulationControlsProps) => {
   return (
     <div className="flex items-center gap-3">
       {!state.isRunning ? (
@@ -44,10 +69,40 @@ export const SimulationControls = ({ state, onStart, onPause, onReset }: Simulat
         Reset
       </Button>
 
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="lg" className="gap-2 font-mono" disabled={state.isRunning}>
+            <Download className="w-5 h-5" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="font-mono text-xs">
+          <DropdownMenuItem onSelect={() => onExport('csv')}>CSV (spreadsheets)</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onExport('json')}>JSON (full state)</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
       <div className="ml-4 flex items-center gap-6 font-mono text-sm">
         <div className="flex items-center gap-2">
-          <span className="text-muted-foreground">Time:</span>
-          <span className="text-foreground">{state.time.toFixed(2)}s</span>
+          <span className="text-muted-foreground">Sim:</span>
+          <span className="text-foreground">{state.time.toFixed(3)}s</span>
+          <span className="text-muted-foreground">Wall:</span>
+          <span className="text-foreground">{wallTime.toFixed(2)}s</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Speed:</span>
+          <Select value={String(timeScale)} onValueChange={(value) => onTimeScaleChange(Number(value))}>
+            <SelectTrigger className="w-[80px] h-9 font-mono text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeScaleOptions.map((option) => (
+                <SelectItem key={option} value={String(option)} className="font-mono text-xs">
+                  {option}×
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
         <div className="flex items-center gap-2">
           <span className="text-muted-foreground">Phase:</span>
@@ -56,6 +111,43 @@ export const SimulationControls = ({ state, onStart, onPause, onReset }: Simulat
           </span>
         </div>
       </div>
+
+      <div className="ml-auto flex items-center gap-2 font-mono text-sm">
+        <span className="text-muted-foreground">Integrator:</span>
+        <Select
+          value={integratorSettings.method}
+          onValueChange={(method) => onIntegratorChange({ ...integratorSettings, method: method as IntegratorMethod })}
+          disabled={state.isRunning}
+        >
+          <SelectTrigger className="w-[190px] h-9 font-mono text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(integratorLabels) as IntegratorMethod[]).map((method) => (
+              <SelectItem key={method} value={method} className="font-mono text-xs">
+                {integratorLabels[method]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">Δt:</span>
+        <Select
+          value={String(integratorSettings.timeStep)}
+          onValueChange={(timeStep) => onIntegratorChange({ ...integratorSettings, timeStep: Number(timeStep) })}
+          disabled={state.isRunning}
+        >
+          <SelectTrigger className="w-[100px] h-9 font-mono text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {timeStepOptions.map((timeStep) => (
+              <SelectItem key={timeStep} value={String(timeStep)} className="font-mono text-xs">
+                {timeStep * 1000} ms
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
     </div>
   );
 };
@@ -1,11 +1,183 @@
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { DataPoint } from '@/lib/physics';
+import { Fragment, useMemo, useRef, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  ReferenceLine,
+  ReferenceDot,
+  ReferenceArea,
+  Brush,
+} from 'recharts';
+import { DataPoint, DoorConfig, resolveDoors } from '@/lib/physics';
+import { MeasuredPoint, MeasuredQuantity, MeasuredSeries, calculateResiduals } from '@/lib/measurements';
+import { SimulationEvent, SimulationEventKind } from '@/lib/simulate';
+import { PinnedRun } from '@/lib/comparison';
+import { doorColor } from '@/lib/doorColors';
+import { CustomPlot, PlotPoint, plotPoints, plotQuantities, plotQuantityTitle } from '@/lib/plots';
+import { recordedIndexAt } from '@/lib/replay';
+import { DataRecording, TimeRange, recordingView } from '@/lib/recording';
+import { CursorReadout, GraphedQuantity, cursorReadout } from '@/lib/cursors';
+import {
+  ChartExportOptions,
+  ChartPanel,
+  chartFigure,
+  defaultChartExportOptions,
+  figureFileName,
+  figureToPng,
+} from '@/lib/chartExport';
+import { downloadFile } from '@/lib/download';
+import { Plus, RotateCcw, Ruler, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Toggle } from '@/components/ui/toggle';
+import { ChartExportMenu } from '@/components/ChartExportMenu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/sonner';
 
 interface SimulationGraphsProps {
-  data: DataPoint[];
+  recording: DataRecording; // every recorded step; each graph draws a decimated view of it
+  sampleCount: number; // recorded samples drawn so far
+  doors: DoorConfig[]; // resolved, so linked door widths give the edge speed
+  measurements?: MeasuredSeries[];
+  events?: SimulationEvent[];
+  pinnedRuns?: PinnedRun[];
+  cursorTime?: number; // s, replay position
+  hoverTime?: number | null; // s, time under the mouse in any graph
+  onHoverTime?: (time: number | null) => void;
+  onSelectTime?: (time: number) => void;
+  customPlots?: CustomPlot[];
+  onCustomPlotsChange?: (plots: CustomPlot[]) => void;
+  timeRange?: TimeRange | null; // null shows the whole run
+  onTimeRangeChange?: (range: TimeRange | null) => void;
 }
 
-export const SimulationGraphs = ({ data }: SimulationGraphsProps) => {
+// Log axes plot |y|; zero has no place on them and leaves a gap
+const logValue = (value: number | undefined) =>
+  value !== undefined && Math.abs(value) > 0 ? Math.abs(value) : undefined;
+
+// One line per door for each series; dashed series are drawn with the door's colour
+// Graphs with a measured quantity also show imported measurements of it
+// The measurement cursors read the first series, in the graph's symbol and unit
+interface GraphConfig {
+  title: string;
+  indicator: string;
+  symbol: string;
+  unit: string;
+  series: { quantity: GraphedQuantity; label: string; strokeDasharray?: string }[];
+  measured?: MeasuredQuantity;
+}
+
+const formatReadout = (value: number | undefined) => (value === undefined ? '—' : value.toPrecision(4));
+
+// Cursors A and B placed on a graph; B follows once A is set
+interface MeasureCursors {
+  graph: string; // title of the graph the readout is for
+  a: number; // s
+  b?: number; // s
+}
+
+// Measured series are dotted in the colour of the door they are compared against
+const MEASURED_DASH = '1 3';
+
+// Pinned runs are drawn in the run's colour, dashed by door; only the first series of a
+// graph is overlaid to keep the graphs readable
+const pinnedDash = ['', '6 3', '2 2', '8 3 2 3', '1 3', '10 4'];
+
+// Event markers are vertical lines in the door's colour, dashed by kind
+const eventDash: Record<SimulationEventKind, string> = {
+  doorClosed: '',
+  doorStopImpact: '4 2',
+  slideComplete: '2 2',
+  slowRotation: '1 2',
+  doorSettled: '6 3',
+};
+
+const graphs: GraphConfig[] = [
+  {
+    title: 'Angular Velocity ω (rad/s)',
+    symbol: 'ω',
+    unit: 'rad/s',
+    indicator: 'bg-primary animate-glow-pulse',
+    series: [{ quantity: 'omega', label: '' }],
+    measured: 'omega',
+  },
+  {
+    title: 'Door Angle θ (rad)',
+    symbol: 'θ',
+    unit: 'rad',
+    indicator: 'bg-accent',
+    series: [{ quantity: 'theta', label: '' }],
+    measured: 'theta',
+  },
+  {
+    title: 'Moment of Inertia I (kg⋅m²)',
+    symbol: 'I',
+    unit: 'kg⋅m²',
+    indicator: 'bg-accent',
+    series: [{ quantity: 'I', label: '' }],
+  },
+  {
+    title: 'Angular Momentum L & Stop Impulse J (kg⋅m²/s)',
+    symbol: 'L',
+    unit: 'kg⋅m²/s',
+    indicator: 'bg-primary',
+    series: [
+      { quantity: 'L', label: '' },
+      { quantity: 'impulse', label: 'Stop J', strokeDasharray: '6 3' },
+    ],
+  },
+  {
+    title: 'Net Hinge Torque τ (N⋅m)',
+    symbol: 'τ',
+    unit: 'N⋅m',
+    indicator: 'bg-accent',
+    series: [{ quantity: 'torque', label: '' }],
+  },
+  {
+    title: 'Energy E (J)',
+    symbol: 'KE',
+    unit: 'J',
+    indicator: 'bg-primary',
+    series: [
+      { quantity: 'KE', label: 'KE' },
+      { quantity: 'work', label: 'Work', strokeDasharray: '2 2' },
+      { quantity: 'loss', label: 'Lost', strokeDasharray: '6 3' },
+    ],
+  },
+];
+
+export const SimulationGraphs = ({
+  recording,
+  sampleCount,
+  doors,
+  measurements = [],
+  events = [],
+  pinnedRuns = [],
+  cursorTime,
+  hoverTime = null,
+  onHoverTime,
+  onSelectTime,
+  customPlots = [],
+  onCustomPlotsChange,
+  timeRange = null,
+  onTimeRangeChange,
+}: SimulationGraphsProps) => {
+  // Drag-to-zoom selection, s, and the graphs switched to a log y axis
+  const [selection, setSelection] = useState<{ from: number; to: number } | null>(null);
+  const [logAxes, setLogAxes] = useState<string[]>([]);
+  // While measuring, clicks place cursors instead of seeking the replay
+  const [measuring, setMeasuring] = useState(false);
+  const [cursors, setCursors] = useState<MeasureCursors | null>(null);
+  const [exportOptions, setExportOptions] = useState<ChartExportOptions>(defaultChartExportOptions);
+  // Rendered charts by key, for export
+  const panelsRef = useRef(new Map<string, ChartPanel>());
+  // A drag that zoomed ends in a click, which must not also seek the replay
+  const zoomedRef = useRef(false);
+
   const commonProps = {
     margin: { top: 10, right: 20, left: 10, bottom: 5 },
   };
@@ -23,145 +195,586 @@ export const SimulationGraphs = ({ data }: SimulationGraphsProps) => {
   };
 
   const formatNumber = (value: number) => value.toFixed(2);
+  const formatLog = (value: number) => value.toExponential(0);
+
+  // Every graph shows the same time window
+  const xAxisProps = timeRange
+    ? { domain: timeRange, allowDataOverflow: true }
+    : { domain: ['dataMin', 'dataMax'] as [string, string] };
+  const inTimeRange = <T extends { time: number }>(points: T[]) =>
+    timeRange ? points.filter((point) => point.time >= timeRange[0] && point.time <= timeRange[1]) : points;
+
+  // Each graph draws the extremes of its own quantities; a zoomed window is decimated from
+  // the full recording, so detail appears as it narrows
+  const samples = recording.samples;
+  const [startTime, endTime] = timeRange ?? [-Infinity, Infinity];
+  const graphData = useMemo(
+    () => graphs.map((graph) =>
+      recordingView(recording, graph.series.map((series) => series.quantity), sampleCount, startTime, endTime)),
+    [recording, sampleCount, startTime, endTime]
+  );
+  const overviewData = useMemo(() => recordingView(recording, ['omega'], sampleCount), [recording, sampleCount]);
+  // Pinned runs are overlaid with the first series of each graph, decimated the same way
+  const pinnedData = useMemo(
+    () => pinnedRuns.map((run) => graphs.map((graph) =>
+      recordingView(run.recording, [graph.series[0].quantity], undefined, startTime, endTime))),
+    [pinnedRuns, startTime, endTime]
+  );
+
+  const isLog = (key: string) => logAxes.includes(key);
+  const yAxisProps = (key: string) => (isLog(key)
+    ? { scale: 'log' as const, domain: ['auto', 'auto'] as [string, string], tickFormatter: formatLog }
+    : { tickFormatter: formatNumber });
+  const logToggle = (key: string) => (
+    <Toggle
+      size="sm"
+      className="ml-auto h-6 px-2 font-mono text-[10px]"
+      pressed={isLog(key)}
+      onPressedChange={(pressed) =>
+        setLogAxes((prev) => (pressed ? [...prev, key] : prev.filter((other) => other !== key)))}
+      aria-label="Logarithmic y axis"
+    >
+      log
+    </Toggle>
+  );
+
+  // Residuals against every recorded step, not the decimated points drawn
+  const residuals = measurements.map((series) => ({ series, points: inTimeRange(calculateResiduals(series, samples)) }));
+  const residualGraphs = (['omega', 'theta'] as const)
+    .filter((quantity) => measurements.some((series) => series.points.some((point) => point[quantity] !== undefined)))
+    .map((quantity) => ({
+      quantity,
+      title: quantity === 'omega' ? 'Residual ω_meas − ω_sim (rad/s)' : 'Residual θ_meas − θ_sim (rad)',
+    }));
+
+  // Markers for the events inside the graphed time range
+  const drawn = graphData[0];
+  const eventMarkers = events
+    .filter((event) => event.time >= drawn[0].time && event.time <= drawn[drawn.length - 1].time)
+    .map((event, k) => (
+      <ReferenceLine
+        key={`event-${k}`}
+        x={event.time}
+        stroke={doorColor(event.door).css}
+        strokeDasharray={eventDash[event.kind]}
+        strokeOpacity={0.6}
+      />
+    ));
+
+  const cursor = cursorTime !== undefined && (
+    <ReferenceLine x={cursorTime} stroke="hsl(var(--foreground))" strokeWidth={1.5} />
+  );
+  const hoverCursor = hoverTime !== null && (
+    <ReferenceLine x={hoverTime} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+  );
+
+  // The hovered time (x value of the nearest sample) is shared by every graph and the 3D ghost
+  const activeTime = (chartState: { activeLabel?: string | number } | null) => {
+    const time = Number(chartState?.activeLabel);
+    return chartState?.activeLabel !== undefined && Number.isFinite(time) ? time : null;
+  };
+  // Only the graphs of the recorded quantities have a readout; residual graphs take no cursors
+  const placeCursor = (graph: string, time: number) => {
+    if (!graphs.some((other) => other.title === graph)) return;
+    setCursors((prev) =>
+      prev && prev.graph === graph && prev.b === undefined ? { ...prev, b: time } : { graph, a: time });
+  };
+  const pointerProps = (graph: string) => ({
+    onMouseDown: (chartState: { activeLabel?: string | number } | null) => {
+      const time = activeTime(chartState);
+      if (time !== null && onTimeRangeChange) setSelection({ from: time, to: time });
+    },
+    onMouseMove: (chartState: { activeLabel?: string | number } | null) => {
+      const time = activeTime(chartState);
+      onHoverTime?.(time);
+      if (selection && time !== null) setSelection({ ...selection, to: time });
+    },
+    onMouseUp: () => {
+      if (selection && selection.from !== selection.to) {
+        onTimeRangeChange?.([Math.min(selection.from, selection.to), Math.max(selection.from, selection.to)]);
+        zoomedRef.current = true;
+      }
+      setSelection(null);
+    },
+    onMouseLeave: () => {
+      onHoverTime?.(null);
+      setSelection(null);
+    },
+    onClick: (chartState: { activeLabel?: string | number } | null) => {
+      const time = activeTime(chartState);
+      if (!zoomedRef.current && time !== null) {
+        if (measuring) placeCursor(graph, time);
+        else onSelectTime?.(time);
+      }
+      zoomedRef.current = false;
+    },
+  });
+  const cursorLines = cursors && [
+    <ReferenceLine key="cursor-a" x={cursors.a} stroke="hsl(var(--primary))" label={{ value: 'A', position: 'top', fontSize: 10 }} />,
+    cursors.b !== undefined && (
+      <ReferenceLine key="cursor-b" x={cursors.b} stroke="hsl(var(--primary))" label={{ value: 'B', position: 'top', fontSize: 10 }} />
+    ),
+  ];
+  const measuredGraph = cursors && graphs.find((graph) => graph.title === cursors.graph);
+
+  const selectionArea = selection && (
+    <ReferenceArea x1={selection.from} x2={selection.to} fill="hsl(var(--primary))" fillOpacity={0.15} />
+  );
+
+  // Brush over the whole run; dragging it pans the time window, its ends zoom it
+  const brushIndex = (time: number) => Math.min(overviewData.length - 1, recordedIndexAt(overviewData, time));
+  const handleBrush = ({ startIndex, endIndex }: { startIndex?: number; endIndex?: number }) => {
+    if (startIndex === undefined || endIndex === undefined) return;
+    const whole = startIndex === 0 && endIndex === overviewData.length - 1;
+    onTimeRangeChange?.(whole ? null : [overviewData[startIndex].time, overviewData[endIndex].time]);
+  };
+
+  // Custom plots: each door's curve, plus the pinned runs' curves of every door
+  const quantities = plotQuantities(doors);
+  const pinnedDoors = pinnedRuns.map((run) => resolveDoors(run.params));
+  const updateCustomPlot = (id: number, changes: Partial<CustomPlot>) => {
+    onCustomPlotsChange?.(customPlots.map((plot) => (plot.id === id ? { ...plot, ...changes } : plot)));
+  };
+  const addCustomPlot = () => {
+    const id = Math.max(-1, ...customPlots.map((plot) => plot.id)) + 1;
+    onCustomPlotsChange?.([...customPlots, { id, x: 'theta', y: 'omega' }]);
+  };
+
+  // Marks the sample at a time on a curve that need not have time along its x axis
+  const timeDot = (points: PlotPoint[], time: number | null | undefined, log: boolean, key: string, fill: string) => {
+    if (time === null || time === undefined || points.length === 0) return null;
+    const point = points[recordedIndexAt(points, time)];
+    const y = log ? logValue(point.y) : point.y;
+    return y === undefined ? null : (
+      <ReferenceDot key={key} x={point.x} y={y} r={4} fill={fill} stroke="hsl(var(--background))" />
+    );
+  };
+
+  const quantitySelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-7 w-28 font-mono text-xs" aria-label={label}>
+        <SelectValue placeholder="—" />
+      </SelectTrigger>
+      <SelectContent>
+        {quantities.map((quantity) => (
+          <SelectItem key={quantity.id} value={quantity.id} className="font-mono text-xs">
+            {plotQuantityTitle(quantity)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const registerPanel = (key: string, title: string) => (container: HTMLElement | null) => {
+    if (container) panelsRef.current.set(key, { title, container });
+    else panelsRef.current.delete(key);
+  };
+  const exportFigure = (panels: ChartPanel[], name: string, format: 'svg' | 'png') => {
+    const figure = chartFigure(panels, exportOptions);
+    if (format === 'svg') {
+      downloadFile(`${name}.svg`, figure.svg, 'image/svg+xml');
+    } else {
+      figureToPng(figure, exportOptions.dpi)
+        .then((png) => downloadFile(`${name}.png`, png, 'image/png'))
+        .catch((error: Error) => toast.error('Chart export failed', { description: error.message }));
+    }
+  };
+  const exportMenu = (key: string) => (
+    <ChartExportMenu
+      options={exportOptions}
+      onOptionsChange={setExportOptions}
+      onExport={(format) => {
+        const panel = panelsRef.current.get(key);
+        if (panel) exportFigure([panel], figureFileName(panel.title), format);
+      }}
+    />
+  );
+  // All charts stacked in page order
+  const exportAll = (format: 'svg' | 'png') => {
+    const panels = Array.from(panelsRef.current.values())
+      .sort((a, b) => (a.container.compareDocumentPosition(b.container) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+    if (panels.length > 0) exportFigure(panels, 'door-simulation-graphs', format);
+  };
+
+  const tooltip = (
+    <Tooltip
+      contentStyle={{
+        backgroundColor: 'hsl(var(--card))',
+        border: '1px solid hsl(var(--border))',
+        borderRadius: '8px',
+        fontSize: '12px',
+      }}
+      labelFormatter={(value) => `t = ${Number(value).toFixed(2)}s`}
+    />
+  );
 
   return (
     <div className="grid grid-cols-1 gap-4 h-full">
-      {/* Angular Velocity Graph */}
-      <div className="graph-container p-4">
-        <h3 className="text-sm font-mono text-primary mb-2 flex items-center gap-2">
-          <span className="w-2 h-2 bg-primary rounded-full animate-glow-pulse" />
-          Angular Velocity ω (rad/s)
-        </h3>
-        <ResponsiveContainer width="100%" height={120}>
-          <LineChart data={data} {...commonProps}>
-            <CartesianGrid {...gridProps} />
-            <XAxis dataKey="time" {...axisProps} tickFormatter={formatNumber} />
-            <YAxis {...axisProps} tickFormatter={formatNumber} />
-            <Tooltip
-              contentStyle={{
-                backgroundColor: 'hsl(var(--card))',
-                border: '1px solid hsl(var(--border))',
-                borderRadius: '8px',
-                fontSize: '12px',
-              }}
-              labelFormatter={(value) => `t = ${Number(value).toFixed(2)}s`}
-            />
-            <Legend 
-              wrapperStyle={{ fontSize: '10px' }}
-              iconType="line"
-            />
-            <Line
-              type="monotone"
-              dataKey="doorA_omega"
-              name="Door A"
-              stroke="hsl(var(--door-a))"
-              strokeWidth={2}
-              dot={false}
-              isAnimationActive={false}
-            />
-            <Line
-              type="monotone"
-              dataKey="doorB_omega"
-              name="Door B"
-              stroke="hsl(var(--door-b))"
-              strokeWidth={2}
-              dot={false}
-              isAnimationActive={false}
-            />
-          </LineChart>
-        </ResponsiveContainer>
+      <div className="flex items-center gap-2 text-xs font-mono text-muted-foreground">
+        <Toggle
+          size="sm"
+          variant="outline"
+          className="h-7 gap-1 px-2 font-mono text-xs"
+          pressed={measuring}
+          onPressedChange={setMeasuring}
+        >
+          <Ruler className="w-3 h-3" />
+          Measure
+        </Toggle>
+        {measuring && <span>Click a graph to place cursor A, then B</span>}
+        <div className="ml-auto">
+          <ChartExportMenu
+            options={exportOptions}
+            onOptionsChange={setExportOptions}
+            onExport={exportAll}
+            label="Export All"
+          />
+        </div>
       </div>
 
-      {/* Moment of Inertia Graph */}
-      <div className="graph-container p-4">
-        <h3 className="text-sm font-mono text-primary mb-2 flex items-center gap-2">
-          <span className="w-2 h-2 bg-accent rounded-full" />
-          Moment of Inertia I (kg⋅m²)
-        </h3>
-        <ResponsiveContainer width="100%" height={120}>
-          <LineChart data={data} {...commonProps}>
-            <CartesianGrid {...gridProps} />
-            <XAxis dataKey="time" {...axisProps} tickFormatter={formatNumber} />
-            <YAxis {...axisProps} tickFormatter={formatNumber} />
-            <Tooltip
-              contentStyle={{
-                backgroundColor: 'hsl(var(--card))',
-                border: '1px solid hsl(var(--border))',
-                borderRadius: '8px',
-                fontSize: '12px',
-              }}
-              labelFormatter={(value) => `t = ${Number(value).toFixed(2)}s`}
-            />
-            <Legend 
-              wrapperStyle={{ fontSize: '10px' }}
-              iconType="line"
-            />
-            <Line
-              type="monotone"
-              dataKey="doorA_I"
-              name="Door A"
-              stroke="hsl(var(--door-a))"
-              strokeWidth={2}
-              dot={false}
-              isAnimationActive={false}
-            />
-            <Line
-              type="monotone"
-              dataKey="doorB_I"
-              name="Door B"
-              stroke="hsl(var(--door-b))"
-              strokeWidth={2}
-              dot={false}
-              isAnimationActive={false}
-            />
-          </LineChart>
-        </ResponsiveContainer>
-      </div>
+      {onTimeRangeChange && overviewData.length > 1 && (
+        <div className="graph-container p-4">
+          <h3 className="text-sm font-mono text-primary mb-2 flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full bg-muted-foreground" />
+            Time Range
+            {timeRange && (
+              <span className="text-xs text-muted-foreground">
+                {timeRange[0].toFixed(3)} – {timeRange[1].toFixed(3)} s
+              </span>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto h-6 gap-1 px-2 font-mono text-xs"
+              onClick={() => onTimeRangeChange(null)}
+              disabled={!timeRange}
+            >
+              <RotateCcw className="w-3 h-3" />
+              Reset View
+            </Button>
+          </h3>
+          <ResponsiveContainer width="100%" height={70}>
+            <LineChart data={overviewData} margin={{ top: 0, right: 20, left: 10, bottom: 0 }}>
+              <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} hide />
+              <YAxis hide />
+              {doors.map((door, i) => (
+                <Line
+                  key={i}
+                  type="monotone"
+                  dataKey={(point: DataPoint) => point.doors[i]?.omega}
+                  stroke={doorColor(i).css}
+                  strokeWidth={1}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+              <Brush
+                dataKey="time"
+                height={24}
+                travellerWidth={8}
+                startIndex={timeRange ? brushIndex(timeRange[0]) : 0}
+                endIndex={timeRange ? brushIndex(timeRange[1]) : overviewData.length - 1}
+                onChange={handleBrush}
+                stroke="hsl(var(--primary))"
+                fill="hsl(var(--card))"
+                tickFormatter={formatNumber}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
 
-      {/* Angular Momentum Graph */}
-      <div className="graph-container p-4">
-        <h3 className="text-sm font-mono text-primary mb-2 flex items-center gap-2">
-          <span className="w-2 h-2 bg-primary rounded-full" />
-          Angular Momentum L (kg⋅m²/s)
-        </h3>
-        <ResponsiveContainer width="100%" height={120}>
-          <LineChart data={data} {...commonProps}>
-            <CartesianGrid {...gridProps} />
-            <XAxis dataKey="time" {...axisProps} tickFormatter={formatNumber} />
-            <YAxis {...axisProps} tickFormatter={formatNumber} />
-            <Tooltip
-              contentStyle={{
-                backgroundColor: 'hsl(var(--card))',
-                border: '1px solid hsl(var(--border))',
-                borderRadius: '8px',
-                fontSize: '12px',
-              }}
-              labelFormatter={(value) => `t = ${Number(value).toFixed(2)}s`}
-            />
-            <Legend 
-              wrapperStyle={{ fontSize: '10px' }}
-              iconType="line"
-            />
-            <Line
-              type="monotone"
-              dataKey="doorA_L"
-              name="Door A"
-              stroke="hsl(var(--door-a))"
-              strokeWidth={2}
-              dot={false}
-              isAnimationActive={false}
-            />
-            <Line
-              type="monotone"
-              dataKey="doorB_L"
-              name="Door B"
-              stroke="hsl(var(--door-b))"
-              strokeWidth={2}
-              dot={false}
-              isAnimationActive={false}
-            />
-          </LineChart>
-        </ResponsiveContainer>
+      {graphs.map((graph, g) => (
+        <div key={graph.title} ref={registerPanel(graph.title, graph.title)} className="graph-container p-4">
+          <h3 className="text-sm font-mono text-primary mb-2 flex items-center gap-2">
+            <span className={`w-2 h-2 rounded-full ${graph.indicator}`} />
+            {graph.title}
+            {logToggle(graph.title)}
+            {exportMenu(graph.title)}
+          </h3>
+          <ResponsiveContainer width="100%" height={120}>
+            <LineChart data={graphData[g]} {...commonProps} {...pointerProps(graph.title)}>
+              <CartesianGrid {...gridProps} />
+              <XAxis dataKey="time" type="number" {...xAxisProps} {...axisProps} tickFormatter={formatNumber} />
+              <YAxis {...axisProps} {...yAxisProps(graph.title)} />
+              {tooltip}
+              <Legend
+                wrapperStyle={{ fontSize: '10px' }}
+                iconType="line"
+              />
+              {eventMarkers}
+              {cursor}
+              {hoverCursor}
+              {selectionArea}
+              {cursorLines}
+              {graph.series.flatMap((series) =>
+                doors.map((door, i) => (
+                  <Line
+                    key={`${series.quantity}-${i}`}
+                    type="monotone"
+                    dataKey={(point: DataPoint) => {
+                      const value = point.doors[i]?.[series.quantity];
+                      return isLog(graph.title) ? logValue(value) : value;
+                    }}
+                    name={series.label ? `${door.name} ${series.label}` : door.name}
+                    stroke={doorColor(i).css}
+                    strokeDasharray={series.strokeDasharray}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))
+              )}
+              {pinnedRuns.flatMap((run, k) =>
+                run.params.doors.map((door, i) => (
+                  <Line
+                    key={`pinned-${run.id}-${i}`}
+                    data={pinnedData[k][g]}
+                    type="monotone"
+                    dataKey={(point: DataPoint) => {
+                      const value = point.doors[i]?.[graph.series[0].quantity];
+                      return isLog(graph.title) ? logValue(value) : value;
+                    }}
+                    name={`${run.name} ${door.name}`}
+                    stroke={run.color}
+                    strokeDasharray={pinnedDash[i % pinnedDash.length]}
+                    strokeWidth={1.5}
+                    strokeOpacity={0.8}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))
+              )}
+              {graph.measured && measurements.map((series, k) => (
+                <Line
+                  key={`measured-${k}`}
+                  data={inTimeRange(series.points)}
+                  type="linear"
+                  dataKey={(point: MeasuredPoint) => {
+                    const value = graph.measured && point[graph.measured];
+                    return isLog(graph.title) ? logValue(value) : value;
+                  }}
+                  name={`${series.name} (measured)`}
+                  stroke={doorColor(series.door).css}
+                  strokeDasharray={MEASURED_DASH}
+                  strokeWidth={1.5}
+                  dot={false}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
+
+      {residualGraphs.map((graph) => (
+        <div key={graph.quantity} ref={registerPanel(`residual-${graph.quantity}`, graph.title)} className="graph-container p-4">
+          <h3 className="text-sm font-mono text-primary mb-2 flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full bg-muted-foreground" />
+            {graph.title}
+            <span className="ml-auto">{exportMenu(`residual-${graph.quantity}`)}</span>
+          </h3>
+          <ResponsiveContainer width="100%" height={120}>
+            <LineChart {...commonProps}>
+              <CartesianGrid {...gridProps} />
+              <XAxis dataKey="time" type="number" {...xAxisProps} {...axisProps} tickFormatter={formatNumber} />
+              <YAxis {...axisProps} tickFormatter={formatNumber} />
+              {tooltip}
+              <Legend
+                wrapperStyle={{ fontSize: '10px' }}
+                iconType="line"
+              />
+              {eventMarkers}
+              {cursor}
+              {hoverCursor}
+              {residuals.map(({ series, points }, k) => (
+                <Line
+                  key={`residual-${k}`}
+                  data={points}
+                  type="linear"
+                  dataKey={graph.quantity}
+                  name={series.name}
+                  stroke={doorColor(series.door).css}
+                  strokeWidth={1.5}
+                  dot={false}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
+
+      {customPlots.map((plot) => {
+        const x = quantities.find((quantity) => quantity.id === plot.x);
+        const y = quantities.find((quantity) => quantity.id === plot.y);
+        // Each curve is drawn from the samples where its x or y quantity peaks
+        const plotted = [x, y].flatMap((quantity) => quantity?.recorded ?? []);
+        const liveData = recordingView(recording, plotted, sampleCount, startTime, endTime);
+        const curves = x && y
+          ? [
+            ...doors.map((door, i) => ({
+              key: `door-${i}`,
+              name: door.name,
+              points: plotPoints(liveData, x, y, i, door),
+              color: doorColor(i).css,
+              strokeDasharray: undefined as string | undefined,
+              live: true,
+            })),
+            ...pinnedRuns.flatMap((run, k) => {
+              const runData = recordingView(run.recording, plotted, undefined, startTime, endTime);
+              return pinnedDoors[k].map((door, i) => ({
+                key: `pinned-${run.id}-${i}`,
+                name: `${run.name} ${door.name}`,
+                points: plotPoints(runData, x, y, i, door),
+                color: run.color,
+                strokeDasharray: pinnedDash[i % pinnedDash.length],
+                live: false,
+              }));
+            }),
+          ]
+          : [];
+
+        const title = x && y ? `${plotQuantityTitle(y)} vs ${plotQuantityTitle(x)}` : `Plot ${plot.id + 1}`;
+        return (
+          <div key={`custom-${plot.id}`} ref={registerPanel(`custom-${plot.id}`, title)} className="graph-container p-4">
+            <div className="mb-2 flex items-center gap-2 text-xs font-mono">
+              <span className="w-2 h-2 rounded-full bg-muted-foreground" />
+              {quantitySelect(plot.y, (id) => updateCustomPlot(plot.id, { y: id }), 'Vertical axis')}
+              <span className="text-muted-foreground">vs</span>
+              {quantitySelect(plot.x, (id) => updateCustomPlot(plot.id, { x: id }), 'Horizontal axis')}
+              {logToggle(`custom-${plot.id}`)}
+              {exportMenu(`custom-${plot.id}`)}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => onCustomPlotsChange?.(customPlots.filter((other) => other.id !== plot.id))}
+                aria-label="Remove plot"
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+            {x && y ? (
+              <ResponsiveContainer width="100%" height={160}>
+                <LineChart {...commonProps}>
+                  <CartesianGrid {...gridProps} />
+                  <XAxis dataKey="x" type="number" domain={['auto', 'auto']} {...axisProps} tickFormatter={formatNumber} />
+                  <YAxis dataKey="y" type="number" domain={['auto', 'auto']} {...axisProps} {...yAxisProps(`custom-${plot.id}`)} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px',
+                      fontSize: '12px',
+                    }}
+                    labelFormatter={(value) => `${x.label} = ${Number(value).toPrecision(4)} ${x.unit}`}
+                    formatter={(value: number) => `${y.label} = ${Number(value).toPrecision(4)} ${y.unit}`}
+                  />
+                  <Legend wrapperStyle={{ fontSize: '10px' }} iconType="line" />
+                  {curves.map((curve) => (
+                    <Line
+                      key={curve.key}
+                      data={curve.points}
+                      type="linear"
+                      dataKey={(point: PlotPoint) => (isLog(`custom-${plot.id}`) ? logValue(point.y) : point.y)}
+                      name={curve.name}
+                      stroke={curve.color}
+                      strokeDasharray={curve.strokeDasharray}
+                      strokeWidth={curve.live ? 2 : 1.5}
+                      strokeOpacity={curve.live ? 1 : 0.8}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  {curves.filter((curve) => curve.live).flatMap((curve) => [
+                    timeDot(curve.points, cursorTime, isLog(`custom-${plot.id}`), `cursor-${curve.key}`, 'hsl(var(--foreground))'),
+                    timeDot(curve.points, hoverTime, isLog(`custom-${plot.id}`), `hover-${curve.key}`, curve.color),
+                  ])}
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-xs font-mono text-muted-foreground">
+                This quantity is not recorded for the current doors.
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      {measuredGraph && cursors && (
+        <MeasureReadout
+          graph={measuredGraph}
+          cursors={cursors}
+          doors={doors}
+          readouts={doors.map((_, i) =>
+            cursorReadout(samples, i, measuredGraph.series[0].quantity, cursors.a, cursors.b))}
+          onClose={() => setCursors(null)}
+        />
+      )}
+
+      {onCustomPlotsChange && (
+        <Button variant="outline" size="sm" onClick={addCustomPlot} className="gap-1 font-mono text-xs">
+          <Plus className="w-3 h-3" />
+          Add Plot
+        </Button>
+      )}
+    </div>
+  );
+};
+
+interface MeasureReadoutProps {
+  graph: GraphConfig;
+  cursors: MeasureCursors;
+  doors: DoorConfig[];
+  readouts: CursorReadout[]; // one per door
+  onClose: () => void;
+}
+
+// Floating card with the values read off the measured graph
+const MeasureReadout = ({ graph, cursors, doors, readouts, onClose }: MeasureReadoutProps) => {
+  const { symbol, unit } = graph;
+  const rows: { label: string; unit: string; value: (readout: CursorReadout) => number | undefined }[] = [
+    { label: `${symbol}(A)`, unit, value: (readout) => readout.a },
+    { label: `d${symbol}/dt (A)`, unit: `${unit}/s`, value: (readout) => readout.slopeA },
+    ...(cursors.b === undefined ? [] : [
+      { label: `${symbol}(B)`, unit, value: (readout: CursorReadout) => readout.b },
+      { label: `d${symbol}/dt (B)`, unit: `${unit}/s`, value: (readout: CursorReadout) => readout.slopeB },
+      { label: `Δ${symbol}`, unit, value: (readout: CursorReadout) => readout.delta },
+      { label: `∫${symbol} dt`, unit: `${unit}⋅s`, value: (readout: CursorReadout) => readout.area },
+    ]),
+  ];
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 space-y-2 rounded-lg border border-border bg-card p-3 font-mono text-xs shadow-lg">
+      <div className="flex items-center gap-2">
+        <Ruler className="w-3 h-3 text-primary" />
+        <span className="text-primary">{graph.title}</span>
+        <Button variant="ghost" size="icon" className="ml-auto h-6 w-6" onClick={onClose} aria-label="Remove cursors">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+      <div className="text-muted-foreground">
+        t_A = {cursors.a.toFixed(3)} s
+        {cursors.b !== undefined && (
+          <> · t_B = {cursors.b.toFixed(3)} s · Δt = {(cursors.b - cursors.a).toFixed(3)} s</>
+        )}
+      </div>
+      <div className="grid gap-x-3 gap-y-1" style={{ gridTemplateColumns: `auto repeat(${doors.length}, 1fr)` }}>
+        <span />
+        {doors.map((door, i) => (
+          <span key={i} className="text-right" style={{ color: doorColor(i).css }}>{door.name}</span>
+        ))}
+        {rows.map((row) => (
+          <Fragment key={row.label}>
+            <span className="text-muted-foreground">{row.label} ({row.unit})</span>
+            {readouts.map((readout, i) => (
+              <span key={i} className="text-right">{formatReadout(row.value(readout))}</span>
+            ))}
+          </Fragment>
+        ))}
       </div>
     </div>
   );
@@ -0,0 +1,189 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { SweepResult } from '@/lib/sweep';
+
+interface SweepResultChartProps {
+  result: SweepResult;
+  outcomeLabel: string;
+}
+
+// Viridis colour stops for the heat-map, low to high
+const colorStops: [number, number, number][] = [
+  [68, 1, 84],
+  [59, 82, 139],
+  [33, 145, 140],
+  [94, 201, 98],
+  [253, 231, 37],
+];
+
+// Colour of a value in [0, 1] on the heat-map scale
+function scaleColor(fraction: number): string {
+  const position = Math.min(1, Math.max(0, fraction)) * (colorStops.length - 1);
+  const index = Math.min(colorStops.length - 2, Math.floor(position));
+  const t = position - index;
+  const [r, g, b] = colorStops[index].map((c, k) => Math.round(c + t * (colorStops[index + 1][k] - c)));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+const formatNumber = (value: number) => (Number.isFinite(value) ? value.toFixed(2) : '—');
+
+// Heat-map layout in SVG user units
+const CELL_AREA = { left: 60, top: 10, width: 420, height: 300 };
+const COLOR_BAR = { left: 500, width: 14 };
+
+const HeatMap = ({ result, outcomeLabel }: SweepResultChartProps) => {
+  const [xAxis, yAxis] = result.axes;
+  const finite = result.values.flat().filter(Number.isFinite);
+  const min = finite.length > 0 ? Math.min(...finite) : 0;
+  const max = finite.length > 0 ? Math.max(...finite) : 1;
+  const range = max - min || 1;
+  const cellWidth = CELL_AREA.width / xAxis.values.length;
+  const cellHeight = CELL_AREA.height / yAxis.values.length;
+  const tickEvery = (count: number) => Math.max(1, Math.ceil(count / 6));
+
+  return (
+    <svg viewBox="0 0 580 360" className="w-full h-auto font-mono" role="img" aria-label={outcomeLabel}>
+      {result.values.map((row, j) =>
+        row.map((value, i) => (
+          <rect
+            key={`${i}-${j}`}
+            x={CELL_AREA.left + i * cellWidth}
+            // First y value at the bottom
+            y={CELL_AREA.top + CELL_AREA.height - (j + 1) * cellHeight}
+            width={cellWidth + 0.5}
+            height={cellHeight + 0.5}
+            fill={Number.isFinite(value) ? scaleColor((value - min) / range) : 'hsl(var(--muted))'}
+          >
+            <title>
+              {`${xAxis.label} = ${formatNumber(xAxis.values[i])}\n${yAxis.label} = ${formatNumber(yAxis.values[j])}\n${outcomeLabel} = ${formatNumber(value)}`}
+            </title>
+          </rect>
+        ))
+      )}
+
+      {/* Axes */}
+      {xAxis.values.map((value, i) => i % tickEvery(xAxis.values.length) === 0 && (
+        <text
+          key={i}
+          x={CELL_AREA.left + (i + 0.5) * cellWidth}
+          y={CELL_AREA.top + CELL_AREA.height + 14}
+          textAnchor="middle"
+          fontSize={10}
+          fill="hsl(var(--muted-foreground))"
+        >
+          {formatNumber(value)}
+        </text>
+      ))}
+      {yAxis.values.map((value, j) => j % tickEvery(yAxis.values.length) === 0 && (
+        <text
+          key={j}
+          x={CELL_AREA.left - 6}
+          y={CELL_AREA.top + CELL_AREA.height - (j + 0.5) * cellHeight + 3}
+          textAnchor="end"
+          fontSize={10}
+          fill="hsl(var(--muted-foreground))"
+        >
+          {formatNumber(value)}
+        </text>
+      ))}
+      <text
+        x={CELL_AREA.left + CELL_AREA.width / 2}
+        y={CELL_AREA.top + CELL_AREA.height + 32}
+        textAnchor="middle"
+        fontSize={11}
+        fill="hsl(var(--foreground))"
+      >
+        {xAxis.label}
+      </text>
+      <text
+        transform={`translate(14, ${CELL_AREA.top + CELL_AREA.height / 2}) rotate(-90)`}
+        textAnchor="middle"
+        fontSize={11}
+        fill="hsl(var(--foreground))"
+      >
+        {yAxis.label}
+      </text>
+
+      {/* Colour bar */}
+      <defs>
+        <linearGradient id="sweep-color-bar" x1="0" y1="1" x2="0" y2="0">
+          {colorStops.map((_, k) => (
+            <stop key={k} offset={k / (colorStops.length - 1)} stopColor={scaleColor(k / (colorStops.length - 1))} />
+          ))}
+        </linearGradient>
+      </defs>
+      <rect
+        x={COLOR_BAR.left}
+        y={CELL_AREA.top}
+        width={COLOR_BAR.width}
+        height={CELL_AREA.height}
+        fill="url(#sweep-color-bar)"
+      />
+      <text x={COLOR_BAR.left + COLOR_BAR.width + 4} y={CELL_AREA.top + 8} fontSize={10} fill="hsl(var(--muted-foreground))">
+        {formatNumber(max)}
+      </text>
+      <text
+        x={COLOR_BAR.left + COLOR_BAR.width + 4}
+        y={CELL_AREA.top + CELL_AREA.height}
+        fontSize={10}
+        fill="hsl(var(--muted-foreground))"
+      >
+        {formatNumber(min)}
+      </text>
+    </svg>
+  );
+};
+
+// Line chart for a 1D sweep, heat-map for a 2D sweep
+export const SweepResultChart = ({ result, outcomeLabel }: SweepResultChartProps) => {
+  if (result.axes.length > 1) {
+    return <HeatMap result={result} outcomeLabel={outcomeLabel} />;
+  }
+
+  const [xAxis] = result.axes;
+  const data = xAxis.values.map((x, i) => ({
+    x,
+    value: Number.isFinite(result.values[0][i]) ? result.values[0][i] : null,
+  }));
+
+  const axisProps = {
+    tick: { fill: 'hsl(var(--muted-foreground))', fontSize: 10 },
+    axisLine: { stroke: 'hsl(var(--border))' },
+    tickLine: { stroke: 'hsl(var(--border))' },
+  };
+
+  return (
+    <ResponsiveContainer width="100%" height={320}>
+      <LineChart data={data} margin={{ top: 10, right: 20, left: 10, bottom: 20 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--grid-line))" strokeOpacity={0.5} />
+        <XAxis
+          dataKey="x"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={formatNumber}
+          label={{ value: xAxis.label, position: 'insideBottom', offset: -10, fontSize: 11 }}
+          {...axisProps}
+        />
+        <YAxis tickFormatter={formatNumber} {...axisProps} />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: 'hsl(var(--card))',
+            border: '1px solid hsl(var(--border))',
+            borderRadius: '8px',
+            fontSize: '12px',
+          }}
+          labelFormatter={(value) => `${xAxis.label} = ${formatNumber(Number(value))}`}
+          formatter={(value: number) => [formatNumber(value), outcomeLabel]}
+        />
+        <Line
+          type="monotone"
+          dataKey="value"
+          stroke="hsl(var(--primary))"
+          strokeWidth={2}
+          dot={{ r: 2 }}
+          connectNulls={false}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
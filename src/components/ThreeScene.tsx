@@ -1,24 +1,54 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useState } from 'react';
 import * as THREE from 'three';
-import { SimulationState, SimulationParams } from '@/lib/physics';
+import { SimulationState, SimulationParams, resolveDoors } from '@/lib/physics';
+import { doorColor } from '@/lib/doorColors';
+import {
+  CanvasRecording,
+  OverlayLine,
+  canRecordVideo,
+  compositeFrame,
+  overlayLines,
+  recordCanvas,
+  snapshotSizes,
+} from '@/lib/capture';
+import { downloadFile } from '@/lib/download';
+import { Camera, Captions, Square, Video } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Toggle } from '@/components/ui/toggle';
 
 interface ThreeSceneProps {
   state: SimulationState;
   params: SimulationParams;
+  ghostState?: SimulationState; // drawn as translucent doors, e.g. the pose under the graph cursor
 }
 
-export const ThreeScene = ({ state, params }: ThreeSceneProps) => {
+// Everything the scene geometry is built from; other parameters only affect the motion
+interface SceneLayout {
+  doors: { name: string; doorWidth: number; tracks: [number, number][] }[];
+}
+
+// Door dimensions
+const DOOR_HEIGHT = 2.2;
+const DOOR_THICKNESS = 0.08;
+const DOOR_SPACING = 2.5;
+
+// Height of the k-th of n sliding masses on a door
+function massHeight(k: number, count: number): number {
+  return DOOR_HEIGHT / 2 + 0.1 + (k - (count - 1) / 2) * 0.35;
+}
+
+export const ThreeScene = ({ state, params, ghostState }: ThreeSceneProps) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<{
     scene: THREE.Scene;
     camera: THREE.PerspectiveCamera;
     renderer: THREE.WebGLRenderer;
-    doorAGroup: THREE.Group;
-    doorBGroup: THREE.Group;
-    slidingMass: THREE.Mesh;
+    doorGroups: THREE.Group[];
+    slidingMasses: THREE.Mesh[][];
+    ghostGroups: THREE.Group[];
+    ghostMasses: THREE.Mesh[][];
     gridHelper: THREE.GridHelper;
-    hingeA: THREE.Mesh;
-    hingeB: THREE.Mesh;
   } | null>(null);
 
   // Orbit controls state
@@ -28,6 +58,15 @@ export const ThreeScene = ({ state, params }: ThreeSceneProps) => {
   const cameraAngleX = useRef(0);
   const cameraAngleY = useRef(0.5);
 
+  // Capture: snapshot size, data overlay and the clip being recorded. The render loop
+  // calls onFrameRef after each frame, which is when a recording copies the frame.
+  const [snapshotSize, setSnapshotSize] = useState(snapshotSizes[2].label);
+  const [showOverlay, setShowOverlay] = useState(true);
+  const [isRecording, setIsRecording] = useState(false);
+  const overlayRef = useRef<OverlayLine[] | null>(null);
+  const onFrameRef = useRef<(() => void) | null>(null);
+  const recordingRef = useRef<CanvasRecording | null>(null);
+
   const updateCameraPosition = useCallback(() => {
     if (!sceneRef.current) return;
     const { camera } = sceneRef.current;
@@ -40,8 +79,17 @@ export const ThreeScene = ({ state, params }: ThreeSceneProps) => {
     camera.lookAt(0, 1.2, 0);
   }, []);
 
+  const layoutKey = JSON.stringify({
+    doors: resolveDoors(params).map((door) => ({
+      name: door.name,
+      doorWidth: door.doorWidth,
+      tracks: door.slidingMasses.map((slidingMass) => [slidingMass.initialRadius, slidingMass.finalRadius]),
+    })),
+  } satisfies SceneLayout);
+
   const initScene = useCallback(() => {
     if (!containerRef.current) return;
+    const layout: SceneLayout = JSON.parse(layoutKey);
 
     const width = containerRef.current.clientWidth;
     const height = containerRef.current.clientHeight;
@@ -84,22 +132,6 @@ export const ThreeScene = ({ state, params }: ThreeSceneProps) => {
     scene.add(gridHelper);
 
     // Materials
-    const doorMaterialA = new THREE.MeshStandardMaterial({
-      color: 0x0088cc,
-      metalness: 0.2,
-      roughness: 0.5,
-      emissive: 0x004466,
-      emissiveIntensity: 0.1,
-    });
-
-    const doorMaterialB = new THREE.MeshStandardMaterial({
-      color: 0xf5a623,
-      metalness: 0.2,
-      roughness: 0.5,
-      emissive: 0x663300,
-      emissiveIntensity: 0.1,
-    });
-
     const hingeMaterial = new THREE.MeshStandardMaterial({
       color: 0x5a6574,
       metalness: 0.8,
@@ -114,69 +146,88 @@ export const ThreeScene = ({ state, params }: ThreeSceneProps) => {
       emissiveIntensity: 0.15,
     });
 
-    // Door dimensions
-    const doorHeight = 2.2;
-    const doorThickness = 0.08;
-    const doorSpacing = 2.5;
-
-    // Door A (Sliding Mass) - Group
-    const doorAGroup = new THREE.Group();
-    doorAGroup.position.set(-doorSpacing / 2, 0, 0);
-
-    const doorAGeometry = new THREE.BoxGeometry(params.doorWidth, doorHeight, doorThickness);
-    const doorA = new THREE.Mesh(doorAGeometry, doorMaterialA);
-    doorA.position.set(params.doorWidth / 2, doorHeight / 2 + 0.1, 0);
-    doorA.castShadow = true;
-    doorA.receiveShadow = true;
-    doorAGroup.add(doorA);
+    // Ghost materials: see-through and not hiding what is behind them
+    const ghostMassMaterial = new THREE.MeshStandardMaterial({
+      color: 0xe53935,
+      transparent: true,
+      opacity: 0.3,
+      depthWrite: false,
+    });
 
-    // Sliding mass track
-    const trackGeometry = new THREE.BoxGeometry(params.finalRadius - params.initialRadius + 0.1, 0.02, 0.06);
     const trackMaterial = new THREE.MeshStandardMaterial({ color: 0x778899 });
-    const track = new THREE.Mesh(trackGeometry, trackMaterial);
-    track.position.set(
-      (params.initialRadius + params.finalRadius) / 2,
-      doorHeight / 2 + 0.1,
-      doorThickness / 2 + 0.02
-    );
-    doorAGroup.add(track);
-
-    // Sliding mass
+    const hingeGeometry = new THREE.CylinderGeometry(0.05, 0.05, DOOR_HEIGHT + 0.3, 16);
     const massGeometry = new THREE.SphereGeometry(0.08, 32, 32);
-    const slidingMass = new THREE.Mesh(massGeometry, massMaterial);
-    slidingMass.position.set(
-      params.initialRadius,
-      doorHeight / 2 + 0.1,
-      doorThickness / 2 + 0.02
-    );
-    slidingMass.castShadow = true;
-    doorAGroup.add(slidingMass);
-
-    // Hinge A
-    const hingeGeometry = new THREE.CylinderGeometry(0.05, 0.05, doorHeight + 0.3, 16);
-    const hingeA = new THREE.Mesh(hingeGeometry, hingeMaterial);
-    hingeA.position.set(0, doorHeight / 2 + 0.1, 0);
-    doorAGroup.add(hingeA);
-
-    scene.add(doorAGroup);
-
-    // Door B (Standard) - Group
-    const doorBGroup = new THREE.Group();
-    doorBGroup.position.set(doorSpacing / 2, 0, 0);
-
-    const doorBGeometry = new THREE.BoxGeometry(params.doorWidth, doorHeight, doorThickness);
-    const doorB = new THREE.Mesh(doorBGeometry, doorMaterialB);
-    doorB.position.set(params.doorWidth / 2, doorHeight / 2 + 0.1, 0);
-    doorB.castShadow = true;
-    doorB.receiveShadow = true;
-    doorBGroup.add(doorB);
-
-    // Hinge B
-    const hingeB = new THREE.Mesh(hingeGeometry, hingeMaterial);
-    hingeB.position.set(0, doorHeight / 2 + 0.1, 0);
-    doorBGroup.add(hingeB);
-
-    scene.add(doorBGroup);
+
+    // Doors side by side, centred on the origin
+    const doorX = (i: number) => (i - (layout.doors.length - 1) / 2) * DOOR_SPACING;
+    const doorGroups: THREE.Group[] = [];
+    const slidingMasses: THREE.Mesh[][] = [];
+    const ghostGroups: THREE.Group[] = [];
+    const ghostMasses: THREE.Mesh[][] = [];
+
+    layout.doors.forEach((doorLayout, i) => {
+      const color = doorColor(i);
+      const doorGroup = new THREE.Group();
+      doorGroup.position.set(doorX(i), 0, 0);
+
+      const doorMaterial = new THREE.MeshStandardMaterial({
+        color: color.hex,
+        metalness: 0.2,
+        roughness: 0.5,
+        emissive: color.emissive,
+        emissiveIntensity: 0.1,
+      });
+      const doorGeometry = new THREE.BoxGeometry(doorLayout.doorWidth, DOOR_HEIGHT, DOOR_THICKNESS);
+      const door = new THREE.Mesh(doorGeometry, doorMaterial);
+      door.position.set(doorLayout.doorWidth / 2, DOOR_HEIGHT / 2 + 0.1, 0);
+      door.castShadow = true;
+      door.receiveShadow = true;
+      doorGroup.add(door);
+
+      // Sliding mass tracks and masses
+      slidingMasses.push(doorLayout.tracks.map(([initialRadius, finalRadius], k) => {
+        const height = massHeight(k, doorLayout.tracks.length);
+        const trackGeometry = new THREE.BoxGeometry(finalRadius - initialRadius + 0.1, 0.02, 0.06);
+        const track = new THREE.Mesh(trackGeometry, trackMaterial);
+        track.position.set((initialRadius + finalRadius) / 2, height, DOOR_THICKNESS / 2 + 0.02);
+        doorGroup.add(track);
+
+        const slidingMass = new THREE.Mesh(massGeometry, massMaterial);
+        slidingMass.position.set(initialRadius, height, DOOR_THICKNESS / 2 + 0.02);
+        slidingMass.castShadow = true;
+        doorGroup.add(slidingMass);
+        return slidingMass;
+      }));
+
+      // Hinge
+      const hinge = new THREE.Mesh(hingeGeometry, hingeMaterial);
+      hinge.position.set(0, DOOR_HEIGHT / 2 + 0.1, 0);
+      doorGroup.add(hinge);
+
+      scene.add(doorGroup);
+      doorGroups.push(doorGroup);
+
+      // Ghost door and masses, hidden until there is a ghost pose to show
+      const ghostGroup = new THREE.Group();
+      ghostGroup.position.copy(doorGroup.position);
+      ghostGroup.visible = false;
+      const ghostDoor = new THREE.Mesh(doorGeometry, new THREE.MeshStandardMaterial({
+        color: color.hex,
+        transparent: true,
+        opacity: 0.25,
+        depthWrite: false,
+      }));
+      ghostDoor.position.copy(door.position);
+      ghostGroup.add(ghostDoor);
+      ghostMasses.push(doorLayout.tracks.map(([initialRadius], k) => {
+        const ghostMass = new THREE.Mesh(massGeometry, ghostMassMaterial);
+        ghostMass.position.set(initialRadius, massHeight(k, doorLayout.tracks.length), DOOR_THICKNESS / 2 + 0.02);
+        ghostGroup.add(ghostMass);
+        return ghostMass;
+      }));
+      scene.add(ghostGroup);
+      ghostGroups.push(ghostGroup);
+    });
 
     // Ground plane
     const groundGeometry = new THREE.PlaneGeometry(20, 20);
@@ -210,27 +261,32 @@ export const ThreeScene = ({ state, params }: ThreeSceneProps) => {
       return sprite;
     };
 
-    const labelA = createLabel('Door A (Sliding Mass)', new THREE.Vector3(-doorSpacing / 2, 2.8, 0), 0x0077aa);
-    const labelB = createLabel('Door B (Standard)', new THREE.Vector3(doorSpacing / 2, 2.8, 0), 0xd9850e);
-    scene.add(labelA);
-    scene.add(labelB);
+    layout.doors.forEach((doorLayout, i) => {
+      const title = `${doorLayout.name} (${doorLayout.tracks.length > 0 ? 'Sliding Mass' : 'Standard'})`;
+      scene.add(createLabel(title, new THREE.Vector3(doorX(i), 2.8, 0), doorColor(i).label));
+    });
 
     sceneRef.current = {
       scene,
       camera,
       renderer,
-      doorAGroup,
-      doorBGroup,
-      slidingMass,
+      doorGroups,
+      slidingMasses,
+      ghostGroups,
+      ghostMasses,
       gridHelper,
-      hingeA,
-      hingeB,
     };
 
-    // Animation loop
+    // Pull the camera back far enough to frame every door
+    cameraDistance.current = Math.max(cameraDistance.current, 1.2 * DOOR_SPACING * layout.doors.length);
+    updateCameraPosition();
+
+    // Animation loop, cancelled when the scene is rebuilt or unmounted
+    let frame = 0;
     const animate = () => {
-      requestAnimationFrame(animate);
+      frame = requestAnimationFrame(animate);
       renderer.render(scene, camera);
+      onFrameRef.current?.();
     };
     animate();
 
@@ -282,6 +338,7 @@ export const ThreeScene = ({ state, params }: ThreeSceneProps) => {
     window.addEventListener('resize', handleResize);
 
     return () => {
+      cancelAnimationFrame(frame);
       element.removeEventListener('mousedown', handleMouseDown);
       element.removeEventListener('mousemove', handleMouseMove);
       element.removeEventListener('mouseup', handleMouseUp);
@@ -291,38 +348,167 @@ export const ThreeScene = ({ state, params }: ThreeSceneProps) => {
       renderer.dispose();
       containerRef.current?.removeChild(renderer.domElement);
     };
-  }, [params.doorWidth, params.initialRadius, params.finalRadius, updateCameraPosition]);
+  }, [layoutKey, updateCameraPosition]);
 
   useEffect(() => {
     const cleanup = initScene();
     return cleanup;
   }, [initScene]);
 
-  // Update door rotations and sliding mass position
+  // Update door rotations and sliding mass positions
   useEffect(() => {
     if (!sceneRef.current) return;
 
-    const { doorAGroup, doorBGroup, slidingMass } = sceneRef.current;
+    const { doorGroups, slidingMasses } = sceneRef.current;
 
-    // Update door rotations (rotate around hinge axis)
-    doorAGroup.rotation.y = state.doorA.angle;
-    doorBGroup.rotation.y = state.doorB.angle;
+    state.doors.forEach((door, i) => {
+      if (!doorGroups[i]) return;
 
-    // Update sliding mass position
-    const doorHeight = 2.2;
-    const doorThickness = 0.08;
-    slidingMass.position.set(
-      state.doorA.massRadius,
-      doorHeight / 2 + 0.1,
-      doorThickness / 2 + 0.02
-    );
-  }, [state.doorA.angle, state.doorB.angle, state.doorA.massRadius]);
+      // Update door rotation (rotate around hinge axis)
+      doorGroups[i].rotation.y = door.angle;
+
+      // Update sliding mass positions
+      door.masses.forEach((mass, k) => {
+        slidingMasses[i][k]?.position.setX(mass.radius);
+      });
+    });
+  }, [state.doors]);
+
+  // Show or hide the ghost pose
+  useEffect(() => {
+    if (!sceneRef.current) return;
+
+    const { ghostGroups, ghostMasses } = sceneRef.current;
+
+    ghostGroups.forEach((ghostGroup, i) => {
+      const door = ghostState?.doors[i];
+      ghostGroup.visible = door !== undefined;
+      if (!door) return;
+
+      ghostGroup.rotation.y = door.angle;
+      door.masses.forEach((mass, k) => {
+        ghostMasses[i][k]?.position.setX(mass.radius);
+      });
+    });
+  }, [ghostState]);
+
+  // Data overlay of the shown state, read by the capture of each frame
+  useEffect(() => {
+    overlayRef.current = showOverlay ? overlayLines(state, params.doors) : null;
+  }, [state, params.doors, showOverlay]);
+
+  // Render once at the chosen size and save it as PNG, then restore the view
+  const handleSnapshot = () => {
+    if (!sceneRef.current) return;
+    const { scene, camera, renderer } = sceneRef.current;
+    const size = snapshotSizes.find((option) => option.label === snapshotSize) ?? snapshotSizes[0];
+    const viewSize = renderer.getSize(new THREE.Vector2());
+    const pixelRatio = renderer.getPixelRatio();
+
+    if (size.width > 0) {
+      renderer.setPixelRatio(1);
+      renderer.setSize(size.width, size.height, false);
+      camera.aspect = size.width / size.height;
+      camera.updateProjectionMatrix();
+    }
+    renderer.render(scene, camera);
+    const frame = document.createElement('canvas');
+    compositeFrame(frame, renderer.domElement, overlayRef.current);
+
+    if (size.width > 0) {
+      renderer.setPixelRatio(pixelRatio);
+      renderer.setSize(viewSize.x, viewSize.y, false);
+      camera.aspect = viewSize.x / viewSize.y;
+      camera.updateProjectionMatrix();
+      renderer.render(scene, camera);
+    }
+
+    frame.toBlob((blob) => {
+      if (blob) downloadFile(`door-scene-${frame.width}x${frame.height}.png`, blob, 'image/png');
+    }, 'image/png');
+  };
+
+  // Record the view through a 2D canvas that each frame is copied into with the overlay
+  const handleRecord = () => {
+    if (recordingRef.current) {
+      const recording = recordingRef.current;
+      recordingRef.current = null;
+      onFrameRef.current = null;
+      setIsRecording(false);
+      recording.stop().then((clip) => downloadFile('door-scene.webm', clip, 'video/webm'));
+      return;
+    }
+
+    const frame = document.createElement('canvas');
+    const copyFrame = () => {
+      if (sceneRef.current) compositeFrame(frame, sceneRef.current.renderer.domElement, overlayRef.current);
+    };
+    copyFrame();
+    onFrameRef.current = copyFrame;
+    recordingRef.current = recordCanvas(frame);
+    setIsRecording(true);
+  };
+
+  // Stop a recording left running when the scene goes away
+  useEffect(() => () => {
+    onFrameRef.current = null;
+    recordingRef.current?.stop();
+  }, []);
 
   return (
-    <div 
-      ref={containerRef} 
-      className="w-full h-full bg-simulationBg rounded-lg overflow-hidden cursor-grab active:cursor-grabbing"
-      style={{ minHeight: '400px' }}
-    />
+    <div className="relative w-full h-full" style={{ minHeight: '400px' }}>
+      <div 
+        ref={containerRef} 
+        className="w-full h-full bg-simulationBg rounded-lg overflow-hidden cursor-grab active:cursor-grabbing"
+        style={{ minHeight: '400px' }}
+      />
+
+      <div className="absolute top-2 right-2 flex items-center gap-1">
+        <Select value={snapshotSize} onValueChange={setSnapshotSize}>
+          <SelectTrigger className="h-7 w-28 bg-card/80 font-mono text-xs" aria-label="Snapshot size">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {snapshotSizes.map((size) => (
+              <SelectItem key={size.label} value={size.label} className="font-mono text-xs">
+                {size.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="secondary"
+          size="icon"
+          className="h-7 w-7"
+          onClick={handleSnapshot}
+          aria-label="Save PNG snapshot"
+          title="Save PNG snapshot"
+        >
+          <Camera className="w-3 h-3" />
+        </Button>
+        {canRecordVideo() && (
+          <Button
+            variant={isRecording ? 'destructive' : 'secondary'}
+            size="icon"
+            className="h-7 w-7"
+            onClick={handleRecord}
+            aria-label={isRecording ? 'Stop recording' : 'Record WebM video'}
+            title={isRecording ? 'Stop recording' : 'Record WebM video'}
+          >
+            {isRecording ? <Square className="w-3 h-3" /> : <Video className="w-3 h-3" />}
+          </Button>
+        )}
+        <Toggle
+          size="sm"
+          className="h-7 w-7 bg-card/80 px-0"
+          pressed={showOverlay}
+          onPressedChange={setShowOverlay}
+          aria-label="Burn time and ω into captures"
+          title="Burn time and ω into captures"
+        >
+          <Captions className="w-3 h-3" />
+        </Toggle>
+      </div>
+    </div>
   );
 };
@@ -0,0 +1,79 @@
+import { SimulationParams } from '@/lib/physics';
+import { TorqueModel, torqueCoefficient, torqueFields, torqueLabels } from '@/lib/torques';
+import { doorColor } from '@/lib/doorColors';
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+interface TorqueControlsProps {
+  params: SimulationParams;
+  onParamsChange: (params: SimulationParams) => void;
+  disabled?: boolean;
+}
+
+export const TorqueControls = ({ params, onParamsChange, disabled }: TorqueControlsProps) => {
+  const updateModel = (doorIndex: number, index: number, changes: Partial<TorqueModel>) => {
+    onParamsChange({
+      ...params,
+      doors: params.doors.map((door, i) => i !== doorIndex ? door : {
+        ...door,
+        torques: door.torques.map((model, k) =>
+          k === index ? ({ ...model, ...changes } as TorqueModel) : model
+        ),
+      }),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-mono text-primary uppercase tracking-wider">
+        Hinge Torques
+      </h3>
+
+      {params.doors.map((door, doorIndex) => (
+        <div key={doorIndex} className="space-y-3">
+          <h4 className="font-mono text-xs uppercase tracking-wider" style={{ color: doorColor(doorIndex).css }}>
+            {door.name}
+          </h4>
+          {door.torques.map((model, index) => (
+            <div key={model.kind} className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label htmlFor={`torque-${doorIndex}-${model.kind}`} className="text-xs text-muted-foreground">
+                  {torqueLabels[model.kind]}
+                </Label>
+                <Switch
+                  id={`torque-${doorIndex}-${model.kind}`}
+                  checked={model.enabled}
+                  onCheckedChange={(enabled) => updateModel(doorIndex, index, { enabled })}
+                  disabled={disabled}
+                />
+              </div>
+              {model.enabled && torqueFields[model.kind].map((field) => {
+                const value = torqueCoefficient(model, field.key);
+                return (
+                  <div key={field.key} className="space-y-1 pl-2">
+                    <div className="flex justify-between items-center">
+                      <span className="text-[11px] text-muted-foreground">{field.label}</span>
+                      <span className="font-mono text-xs text-foreground">
+                        {value.toFixed(field.step < 1 ? 2 : 0)}
+                      </span>
+                    </div>
+                    <Slider
+                      value={[value]}
+                      onValueChange={(v) => updateModel(doorIndex, index, { [field.key]: v[0] })}
+                      min={field.min}
+                      max={field.max}
+                      step={field.step}
+                      disabled={disabled}
+                      className="cursor-pointer"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
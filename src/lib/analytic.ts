@@ -0,0 +1,351 @@
+import {
+  DataPoint,
+  DoorConfig,
+  DoorDataPoint,
+  MAX_DOOR_ANGLE,
+  SimulationParams,
+  calculateDoorMomentOfInertia,
+  interpolateRadius,
+  resolveDoors,
+} from './physics';
+import { REST_ANGULAR_VELOCITY } from './torques';
+
+// Reference solutions for the doors whose motion has a closed form, to measure the
+// error of the numerical integration in updateState
+// 'torqueFree': no hinge torques and every sliding mass prescribed (or fixed), so L is
+//   conserved and θ(t) = L ∫ dt / I(t), integrated by Gauss–Legendre quadrature
+// 'linearTorque': constant I with springs, dampers and the closer's current zone,
+//   Iθ̈ + cθ̇ + kθ = τ₀, solved exactly
+export type ReferenceModel = 'torqueFree' | 'linearTorque';
+
+// Why a reference solution stops applying
+// 'doorStop': the door reaches the stop at MAX_DOOR_ANGLE
+// 'latchZone': the hydraulic closer switches between its sweep and latch valves
+// 'frictionReversal': ω slows to the rest threshold, where Coulomb friction holds the door
+//   or reverses
+// 'horizon': no such event before REFERENCE_HORIZON
+export type ReferenceLimit = 'doorStop' | 'latchZone' | 'frictionReversal' | 'horizon';
+
+export interface ReferenceState {
+  theta: number; // rad
+  omega: number; // rad/s
+  L: number; // kg⋅m²/s
+}
+
+export interface ReferenceSolution {
+  model: ReferenceModel;
+  equation: string; // the solved equation, for display
+  validUntil: number; // s; the closed form holds on [0, validUntil]
+  limit: ReferenceLimit;
+  at: (t: number) => ReferenceState;
+}
+
+// Deviation of a simulated door from its reference solution
+export interface ReferenceError {
+  theta: number; // |θ_sim − θ_exact|, rad
+  L: number; // L_sim − L_exact, kg⋅m²/s
+}
+
+export interface ReferenceErrorPoint {
+  time: number;
+  doors: (ReferenceError | null)[]; // null outside the reference's validity or without one
+}
+
+// Running maxima of |Δθ| and |ΔL| of each door over the first `count` samples of a run
+export interface PeakReferenceErrors {
+  count: number;
+  doors: (ReferenceError | undefined)[]; // undefined until a sample has a reference error
+}
+
+export const referenceLimitLabels: Record<ReferenceLimit, string> = {
+  doorStop: 'door stop',
+  latchZone: 'closer latch zone',
+  frictionReversal: 'friction reversal',
+  horizon: 'search horizon',
+};
+
+// Simulated time searched for the end of a reference solution's validity (s)
+const REFERENCE_HORIZON = 60;
+
+// 8-point Gauss–Legendre nodes and weights on [−1, 1]
+const GAUSS_NODES = [
+  -0.9602898564975363, -0.7966664774136267, -0.525532409916329, -0.1834346424956498,
+  0.1834346424956498, 0.525532409916329, 0.7966664774136267, 0.9602898564975363,
+];
+const GAUSS_WEIGHTS = [
+  0.1012285362903763, 0.2223810344533745, 0.3137066458778873, 0.362683783378362,
+  0.362683783378362, 0.3137066458778873, 0.2223810344533745, 0.1012285362903763,
+];
+
+// Panels per quadrature; the integrand is smooth between slide breakpoints, so the
+// composite rule reaches machine precision
+const GAUSS_PANELS = 8;
+
+// ∫_a^b f(t) dt by composite Gauss–Legendre quadrature
+function integrate(f: (t: number) => number, a: number, b: number): number {
+  const width = (b - a) / GAUSS_PANELS;
+  let sum = 0;
+  for (let p = 0; p < GAUSS_PANELS; p++) {
+    const mid = a + (p + 0.5) * width;
+    GAUSS_NODES.forEach((node, k) => {
+      sum += GAUSS_WEIGHTS[k] * f(mid + 0.5 * width * node);
+    });
+  }
+  return 0.5 * width * sum;
+}
+
+// First time in (0, horizon] where any event function changes sign, by scanning
+// with the given step and bisecting the bracketing interval
+// Sign changes that start and end within one step are missed.
+function firstSignChange(
+  events: { limit: ReferenceLimit; g: (t: number) => number }[],
+  step: number,
+  horizon: number
+): { time: number; limit: ReferenceLimit } {
+  const below = (g: (t: number) => number, t: number) => g(t) < 0;
+
+  for (let a = 0; a < horizon; a += step) {
+    const b = Math.min(horizon, a + step);
+    const event = events.find(({ g }) => below(g, a) !== below(g, b));
+    if (!event) continue;
+
+    let low = a;
+    let high = b;
+    const initial = below(event.g, low);
+    for (let i = 0; i < 60; i++) {
+      const mid = 0.5 * (low + high);
+      if (below(event.g, mid) === initial) low = mid;
+      else high = mid;
+    }
+    // An earlier event can still lie inside [a, high]
+    const earlier = events.find((other) => other !== event && below(other.g, a) !== below(other.g, high));
+    if (earlier) return firstSignChange([earlier], (high - a) / 64, high);
+    return { time: high, limit: event.limit };
+  }
+  return { time: horizon, limit: 'horizon' };
+}
+
+// A sliding mass whose radius never changes
+function isFixedMass(door: DoorConfig, k: number): boolean {
+  return door.slidingMasses[k].initialRadius === door.slidingMasses[k].finalRadius;
+}
+
+// Torque-free door with prescribed slides: L = L₀ and ω(t) = L / I(t)
+// I(t) = I_d + Σ m r(t)² is piecewise polynomial between the slide breakpoints
+// (midpoint and end of each slide), so θ is accumulated segment by segment.
+function torqueFreeSolution(door: DoorConfig): ReferenceSolution {
+  const doorInertia = calculateDoorMomentOfInertia(door.doorMass, door.doorWidth);
+  const inertia = (t: number) => door.slidingMasses.reduce((total, slidingMass) => {
+    const radius = interpolateRadius(
+      slidingMass.initialRadius,
+      slidingMass.finalRadius,
+      Math.min(1, t / slidingMass.slideDuration)
+    );
+    return total + slidingMass.mass * radius * radius;
+  }, doorInertia);
+
+  const L = inertia(0) * door.initialAngularVelocity;
+  const breakpoints = [...new Set(door.slidingMasses.flatMap((slidingMass, k) =>
+    isFixedMass(door, k) ? [] : [slidingMass.slideDuration / 2, slidingMass.slideDuration]
+  ))].sort((a, b) => a - b);
+  const starts = [0, ...breakpoints];
+
+  // θ at the start of each segment
+  const angles = [0];
+  for (let j = 1; j < starts.length; j++) {
+    angles.push(angles[j - 1] + L * integrate((t) => 1 / inertia(t), starts[j - 1], starts[j]));
+  }
+  const last = starts.length - 1;
+  const finalInertia = inertia(starts[last]);
+
+  const at = (t: number): ReferenceState => {
+    let j = last;
+    while (j > 0 && t < starts[j]) j--;
+    const theta = j === last
+      ? angles[last] + (L / finalInertia) * (t - starts[last]) // constant I after the slides
+      : angles[j] + L * integrate((s) => 1 / inertia(s), starts[j], t);
+    return { theta, omega: L / inertia(t), L };
+  };
+
+  const slideEnd = starts[last];
+  const { time, limit } = firstSignChange(
+    [{ limit: 'doorStop', g: (t) => at(t).theta - MAX_DOOR_ANGLE }],
+    Math.max(slideEnd / 64, 0.01),
+    REFERENCE_HORIZON
+  );
+
+  return {
+    model: 'torqueFree',
+    equation: door.slidingMasses.length > 0 ? 'L = L₀, θ = L₀ ∫ dt / I(t)' : 'θ = ω₀t',
+    validUntil: time,
+    limit,
+    at,
+  };
+}
+
+// x(t) = e^{−γt}(x₀C(t) + (v₀ + γx₀)S(t)) solves ẍ + 2γẋ + ω_n²x = 0, with D = γ² − ω_n²:
+// C = cos(√−D t), S = sin(√−D t)/√−D (underdamped), C = cosh(√D t), S = sinh(√D t)/√D
+// (overdamped) or C = 1, S = t (critical). C' = D⋅S and S' = C in every case.
+function dampedBasis(discriminant: number, t: number): { C: number; S: number } {
+  if (discriminant < 0) {
+    const frequency = Math.sqrt(-discriminant);
+    return { C: Math.cos(frequency * t), S: Math.sin(frequency * t) / frequency };
+  }
+  if (discriminant > 0) {
+    const rate = Math.sqrt(discriminant);
+    return { C: Math.cosh(rate * t), S: Math.sinh(rate * t) / rate };
+  }
+  return { C: 1, S: t };
+}
+
+// Constant-I door with linear hinge torques: Iθ̈ + cθ̇ + kθ = τ₀
+// Springs add k and τ₀, dampers add c, and Coulomb friction adds −τ_f sign(ω₀) to τ₀
+// for as long as the door keeps moving in its initial direction.
+function linearTorqueSolution(door: DoorConfig): ReferenceSolution | null {
+  const I = door.slidingMasses.reduce(
+    (total, slidingMass) => total + slidingMass.mass * slidingMass.initialRadius ** 2,
+    calculateDoorMomentOfInertia(door.doorMass, door.doorWidth)
+  );
+  const omega0 = door.initialAngularVelocity;
+  let k = 0;
+  let c = 0;
+  let tau0 = 0;
+  const events: { limit: ReferenceLimit; g: (t: number) => number }[] = [];
+
+  for (const model of door.torques) {
+    if (!model.enabled) continue;
+    switch (model.kind) {
+      case 'torsionSpring':
+        k += model.stiffness;
+        tau0 += model.stiffness * model.restAngle;
+        break;
+      case 'hydraulicCloser': {
+        // τ = preload + k_c(θ_c − θ) − c ω, with c fixed by the zone the door starts in
+        const latchStart = model.closedAngle - model.latchAngle;
+        k += model.stiffness;
+        tau0 += model.preload + model.stiffness * model.closedAngle;
+        c += latchStart <= 0 ? model.latchDamping : model.sweepDamping;
+        events.push({ limit: 'latchZone', g: (t) => at(t).theta - latchStart });
+        break;
+      }
+      case 'viscousDamping':
+        c += model.coefficient;
+        break;
+      case 'coulombFriction':
+        // Static friction at rest depends on the other torques; no closed form
+        if (Math.abs(omega0) <= REST_ANGULAR_VELOCITY) return null;
+        tau0 -= model.frictionTorque * Math.sign(omega0);
+        events.push({
+          limit: 'frictionReversal',
+          g: (t) => at(t).omega * Math.sign(omega0) - REST_ANGULAR_VELOCITY,
+        });
+        break;
+    }
+  }
+
+  const gamma = c / (2 * I);
+  const at = (t: number): ReferenceState => {
+    if (k > 0) {
+      const x0 = -tau0 / k; // start relative to the equilibrium θ_e = τ₀ / k
+      const discriminant = gamma * gamma - k / I;
+      const { C, S } = dampedBasis(discriminant, t);
+      const decay = Math.exp(-gamma * t);
+      const b = omega0 + gamma * x0;
+      const x = decay * (x0 * C + b * S);
+      const omega = -gamma * x + decay * (x0 * discriminant * S + b * C);
+      return { theta: tau0 / k + x, omega, L: I * omega };
+    }
+    if (c > 0) {
+      // ω relaxes towards the terminal speed τ₀ / c with time constant I / c
+      const terminal = tau0 / c;
+      const decay = Math.exp(-c * t / I);
+      const omega = terminal + (omega0 - terminal) * decay;
+      return { theta: terminal * t - (omega0 - terminal) * (I / c) * Math.expm1(-c * t / I), omega, L: I * omega };
+    }
+    const alpha = tau0 / I; // constant angular acceleration
+    const omega = omega0 + alpha * t;
+    return { theta: omega0 * t + 0.5 * alpha * t * t, omega, L: I * omega };
+  };
+
+  const period = k > 0 ? 2 * Math.PI * Math.sqrt(I / k) : Infinity;
+  const { time, limit } = firstSignChange(
+    [{ limit: 'doorStop', g: (t) => at(t).theta - MAX_DOOR_ANGLE }, ...events],
+    Math.min(0.01, period / 64),
+    REFERENCE_HORIZON
+  );
+
+  return {
+    model: 'linearTorque',
+    equation: 'Iθ̈ + cθ̇ + kθ = τ₀',
+    validUntil: time,
+    limit,
+    at,
+  };
+}
+
+// Reference solution of one door (null when its motion has no closed form:
+// free slides, or hinge torques acting while a sliding mass moves)
+export function createReferenceSolution(door: DoorConfig): ReferenceSolution | null {
+  const torqueFree = !door.torques.some((model) => model.enabled);
+  const prescribed = door.slidingMasses.every((slidingMass, k) =>
+    slidingMass.slideMode !== 'free' || isFixedMass(door, k)
+  );
+  if (torqueFree && prescribed) return torqueFreeSolution(door);
+  if (door.slidingMasses.every((_, k) => isFixedMass(door, k))) return linearTorqueSolution(door);
+  return null;
+}
+
+// Reference solutions of every door, with linked properties resolved
+export function createReferenceSolutions(params: SimulationParams): (ReferenceSolution | null)[] {
+  return resolveDoors(params).map(createReferenceSolution);
+}
+
+// Error of a simulated door at time t
+// Null once the reference stops applying or the simulated door has met the stop (J ≠ 0),
+// which can happen slightly before validUntil when the simulated θ runs ahead.
+export function calculateReferenceError(
+  solution: ReferenceSolution | null,
+  time: number,
+  door: Pick<DoorDataPoint, 'theta' | 'L' | 'impulse'>
+): ReferenceError | null {
+  if (!solution || time > solution.validUntil || door.impulse !== 0) return null;
+  const exact = solution.at(time);
+  return { theta: Math.abs(door.theta - exact.theta), L: door.L - exact.L };
+}
+
+// Errors of every door at each data point
+export function calculateReferenceErrors(
+  data: DataPoint[],
+  solutions: (ReferenceSolution | null)[]
+): ReferenceErrorPoint[] {
+  return data.map((point) => ({
+    time: point.time,
+    doors: solutions.map((solution, i) =>
+      point.doors[i] ? calculateReferenceError(solution, point.time, point.doors[i]) : null
+    ),
+  }));
+}
+
+// Fold the samples from peaks.count up to count into the maxima, so every step of a
+// growing run is checked once
+export function updatePeakReferenceErrors(
+  peaks: PeakReferenceErrors,
+  data: DataPoint[],
+  solutions: (ReferenceSolution | null)[],
+  count = data.length
+): PeakReferenceErrors {
+  const doors = solutions.map((_, i) => peaks.doors[i]);
+  for (let k = peaks.count; k < count; k++) {
+    const point = data[k];
+    solutions.forEach((solution, i) => {
+      const error = point.doors[i] ? calculateReferenceError(solution, point.time, point.doors[i]) : null;
+      if (!error) return;
+      const peak = doors[i];
+      doors[i] = {
+        theta: Math.max(peak?.theta ?? 0, Math.abs(error.theta)),
+        L: Math.max(peak?.L ?? 0, Math.abs(error.L)),
+      };
+    });
+  }
+  return { count, doors };
+}
@@ -0,0 +1,107 @@
+import { DoorConfig, SimulationState } from './physics';
+import { doorColor } from './doorColors';
+
+// Capture of the 3D view: PNG snapshots and WebM clips, optionally with the run's
+// numbers burned into the frames
+export interface CaptureSize {
+  label: string;
+  width: number; // px; 0 keeps the view's own size
+  height: number;
+}
+
+export const snapshotSizes: CaptureSize[] = [
+  { label: 'View', width: 0, height: 0 },
+  { label: '1280×720', width: 1280, height: 720 },
+  { label: '1920×1080', width: 1920, height: 1080 },
+  { label: '3840×2160', width: 3840, height: 2160 },
+];
+
+// One line of the data overlay
+export interface OverlayLine {
+  text: string;
+  color: string;
+}
+
+// Frames per second of recorded clips
+const RECORDING_FPS = 30;
+
+// Overlay text height as a fraction of the frame height
+const OVERLAY_TEXT_SCALE = 0.035;
+
+const hexColor = (value: number) => `#${value.toString(16).padStart(6, '0')}`;
+
+// Subscript of a door in the overlay: "Door A" → "A", otherwise its number
+function doorSubscript(door: DoorConfig | undefined, i: number): string {
+  return door?.name.replace(/^door\s+/i, '').trim() || String(i + 1);
+}
+
+// Time and each door's angular velocity, e.g. "ω_A = 1.234 rad/s"
+export function overlayLines(state: SimulationState, doors: DoorConfig[]): OverlayLine[] {
+  return [
+    { text: `t = ${state.time.toFixed(3)} s`, color: '#ffffff' },
+    ...state.doors.map((door, i) => ({
+      text: `ω_${doorSubscript(doors[i], i)} = ${door.angularVelocity.toFixed(3)} rad/s`,
+      color: hexColor(doorColor(i).hex),
+    })),
+  ];
+}
+
+// Copy a rendered frame into a 2D canvas of the same size, with the overlay on a dark
+// panel in the top left corner. Must run straight after rendering: WebGL clears the
+// drawing buffer once the frame is shown.
+export function compositeFrame(target: HTMLCanvasElement, source: HTMLCanvasElement, overlay: OverlayLine[] | null): void {
+  if (target.width !== source.width || target.height !== source.height) {
+    target.width = source.width;
+    target.height = source.height;
+  }
+  const context = target.getContext('2d');
+  if (!context) return;
+  context.drawImage(source, 0, 0);
+  if (!overlay || overlay.length === 0) return;
+
+  const fontSize = Math.max(10, Math.round(target.height * OVERLAY_TEXT_SCALE));
+  const lineHeight = fontSize * 1.3;
+  const padding = fontSize * 0.6;
+  context.font = `${fontSize}px monospace`;
+  context.textBaseline = 'top';
+  const width = Math.max(...overlay.map((line) => context.measureText(line.text).width));
+
+  context.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  context.fillRect(padding, padding, width + 2 * padding, overlay.length * lineHeight + padding);
+  overlay.forEach((line, k) => {
+    context.fillStyle = line.color;
+    context.fillText(line.text, 2 * padding, 1.5 * padding + k * lineHeight);
+  });
+}
+
+export function canRecordVideo(): boolean {
+  return typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+}
+
+// A clip being recorded from a canvas; stop() resolves to the WebM file
+export interface CanvasRecording {
+  stop: () => Promise<Blob>;
+}
+
+export function recordCanvas(canvas: HTMLCanvasElement): CanvasRecording {
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+    .find((type) => MediaRecorder.isTypeSupported(type));
+  const stream = canvas.captureStream(RECORDING_FPS);
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(1000); // a chunk per second, so a long clip is not held in one buffer
+
+  return {
+    stop: () =>
+      new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach((track) => track.stop());
+          resolve(new Blob(chunks, { type: 'video/webm' }));
+        };
+        recorder.stop();
+      }),
+  };
+}
@@ -0,0 +1,236 @@
+// Export of the rendered graphs as figures for slides and handouts. Charts are drawn
+// with theme colours (hsl(var(--…))) that only resolve inside the page, so they are
+// replaced by fixed colours; the HTML title and legend are redrawn in SVG.
+export type ChartPalette = 'screen' | 'print';
+
+export interface ChartExportOptions {
+  dpi: number; // PNG resolution; the on-screen size is taken as 96 dpi
+  transparent: boolean; // leave out the background
+  fontSize: number; // px at 96 dpi, for ticks and legend (the title is 2 px larger)
+  palette: ChartPalette; // 'print': black text and light grey grid on white
+}
+
+// One graph of a figure
+export interface ChartPanel {
+  title: string;
+  container: HTMLElement; // element holding the chart's recharts SVG and legend
+}
+
+export const defaultChartExportOptions: ChartExportOptions = {
+  dpi: 300,
+  transparent: false,
+  fontSize: 12,
+  palette: 'screen',
+};
+
+export const exportDpis = [96, 150, 300, 600];
+export const exportFontSizes = [10, 12, 14, 18];
+
+const SCREEN_DPI = 96;
+const PANEL_GAP = 16; // px between the panels of a figure
+const PADDING = 12; // px around a panel
+
+// Theme colours in print: dark text, light grid, white surfaces
+const printColors: Record<string, string> = {
+  foreground: '#111111',
+  'muted-foreground': '#333333',
+  primary: '#1f4e8c',
+  border: '#888888',
+  'grid-line': '#cccccc',
+  card: '#ffffff',
+  background: '#ffffff',
+};
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// #rrggbb of an "h s% l%" theme variable
+function hslToHex(value: string): string {
+  const [h, s, l] = value.trim().split(/[\s,]+/).map((part) => parseFloat(part));
+  const saturation = s / 100;
+  const lightness = l / 100;
+  const chroma = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const colour = lightness - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(colour * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+function themeColor(name: string, palette: ChartPalette): string {
+  if (palette === 'print' && printColors[name]) return printColors[name];
+  const value = getComputedStyle(document.documentElement).getPropertyValue(`--${name}`);
+  return value.trim() ? hslToHex(value) : '#000000';
+}
+
+// Replace every hsl(var(--name)) in an attribute or style value
+function resolveColors(value: string, palette: ChartPalette): string {
+  return value.replace(/hsl\(var\(--([\w-]+)\)\)/g, (_, name: string) => themeColor(name, palette));
+}
+
+function element(name: string, attributes: Record<string, string | number>, text?: string): SVGElement {
+  const node = document.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([key, value]) => node.setAttribute(key, String(value)));
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+// Legend entries of the rendered recharts legend: name, colour and dash of each line
+function legendEntries(container: HTMLElement): { name: string; color: string; dash: string }[] {
+  return Array.from(container.querySelectorAll<HTMLElement>('.recharts-legend-item')).map((item) => {
+    const icon = item.querySelector('path, line');
+    return {
+      name: item.querySelector('.recharts-legend-item-text')?.textContent ?? item.textContent ?? '',
+      color: icon?.getAttribute('stroke') ?? item.querySelector<HTMLElement>('.recharts-legend-item-text')?.style.color ?? '#000000',
+      dash: icon?.getAttribute('stroke-dasharray') ?? '',
+    };
+  });
+}
+
+// Title, chart and legend of one panel, placed at y; returns the panel's group and height
+function panelGroup(panel: ChartPanel, y: number, width: number, options: ChartExportOptions): [SVGElement, number] {
+  const chart = panel.container.querySelector<SVGSVGElement>('svg.recharts-surface');
+  const group = element('g', { transform: `translate(${PADDING}, ${y})` });
+  const titleSize = options.fontSize + 2;
+  group.appendChild(element('text', {
+    x: 0,
+    y: titleSize,
+    'font-size': titleSize,
+    'font-family': 'monospace',
+    fill: themeColor('primary', options.palette),
+  }, panel.title));
+  let height = titleSize + 8;
+
+  if (chart) {
+    const copy = chart.cloneNode(true) as SVGSVGElement;
+    const chartWidth = chart.width.baseVal.value;
+    const chartHeight = chart.height.baseVal.value;
+    copy.querySelectorAll('*').forEach((node) => {
+      ['fill', 'stroke', 'style'].forEach((attribute) => {
+        const value = node.getAttribute(attribute);
+        if (value?.includes('var(')) node.setAttribute(attribute, resolveColors(value, options.palette));
+      });
+      if (node.tagName === 'text' || node.tagName === 'tspan') node.setAttribute('font-size', String(options.fontSize));
+    });
+    copy.setAttribute('x', '0');
+    copy.setAttribute('y', String(height));
+    copy.setAttribute('width', String(chartWidth));
+    copy.setAttribute('height', String(chartHeight));
+    copy.setAttribute('viewBox', `0 0 ${chartWidth} ${chartHeight}`);
+    copy.setAttribute('overflow', 'visible');
+    group.appendChild(copy);
+    height += chartHeight;
+  }
+
+  // Legend entries flow left to right, wrapping at the panel width
+  let x = 0;
+  let row = height + 4;
+  const entryHeight = options.fontSize + 6;
+  legendEntries(panel.container).forEach((entry) => {
+    const entryWidth = 24 + entry.name.length * options.fontSize * 0.62;
+    if (x > 0 && x + entryWidth > width) {
+      x = 0;
+      row += entryHeight;
+    }
+    const middle = row + entryHeight / 2;
+    group.appendChild(element('line', {
+      x1: x,
+      x2: x + 16,
+      y1: middle,
+      y2: middle,
+      stroke: resolveColors(entry.color, options.palette),
+      'stroke-width': 2,
+      'stroke-dasharray': entry.dash,
+    }));
+    group.appendChild(element('text', {
+      x: x + 20,
+      y: middle + options.fontSize * 0.35,
+      'font-size': options.fontSize,
+      'font-family': 'monospace',
+      fill: themeColor('foreground', options.palette),
+    }, entry.name));
+    x += entryWidth + 12;
+  });
+  if (x > 0) row += entryHeight;
+
+  return [group, row];
+}
+
+// The panels stacked into one figure, as SVG markup with its size in px at 96 dpi
+export function chartFigure(panels: ChartPanel[], options: ChartExportOptions): { svg: string; width: number; height: number } {
+  const width = Math.max(1, ...panels.map((panel) =>
+    panel.container.querySelector<SVGSVGElement>('svg.recharts-surface')?.width.baseVal.value ?? 0));
+  const figure = element('svg', { 'font-family': 'monospace' }) as SVGSVGElement;
+  const background = element('rect', { x: 0, y: 0, width: '100%', height: '100%', fill: themeColor('card', options.palette) });
+  if (!options.transparent) figure.appendChild(background);
+
+  let y = PADDING;
+  panels.forEach((panel, k) => {
+    const [group, height] = panelGroup(panel, y, width, options);
+    figure.appendChild(group);
+    y += height + (k < panels.length - 1 ? PANEL_GAP : 0);
+  });
+
+  const figureWidth = width + 2 * PADDING;
+  const figureHeight = y + PADDING;
+  figure.setAttribute('width', String(figureWidth));
+  figure.setAttribute('height', String(figureHeight));
+  figure.setAttribute('viewBox', `0 0 ${figureWidth} ${figureHeight}`);
+  return { svg: new XMLSerializer().serializeToString(figure), width: figureWidth, height: figureHeight };
+}
+
+// CRC-32 of PNG chunks
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Record the resolution in a pHYs chunk after IHDR, so documents place the image at
+// its intended physical size rather than at 96 dpi
+async function withResolution(png: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const IHDR_END = 33; // 8-byte signature + 25-byte IHDR chunk
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9); // data length
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  return new Blob([bytes.subarray(0, IHDR_END), chunk, bytes.subarray(IHDR_END)], { type: 'image/png' });
+}
+
+// Rasterise a figure at the chosen dpi
+export function figureToPng(figure: { svg: string; width: number; height: number }, dpi: number): Promise<Blob> {
+  const scale = dpi / SCREEN_DPI;
+  const url = URL.createObjectURL(new Blob([figure.svg], { type: 'image/svg+xml' }));
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(figure.width * scale);
+      canvas.height = Math.round(figure.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, figure.width, figure.height);
+      canvas.toBlob((blob) => (blob ? resolve(withResolution(blob, dpi)) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Could not render the figure'));
+    image.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+// Safe file name from a graph title, e.g. "Angular Velocity ω (rad/s)" → "angular-velocity-ω-rad-s"
+export function figureFileName(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'chart';
+}
@@ -0,0 +1,113 @@
+import { SimulationParams, createDataPoint, initializeState } from './physics';
+import { IntegratorSettings } from './integrators';
+import { tunableParameters } from './parameters';
+import { OutcomeMetric, evaluateOutcome } from './outcomes';
+import { SimulationEvent, simulateAsync } from './simulate';
+import { DataRecording, appendSample, createDataRecording } from './recording';
+import { torqueLabels } from './torques';
+
+// Runs pinned for side-by-side comparison, e.g. before and after doubling a sliding mass
+export interface PinnedRun {
+  id: number;
+  name: string;
+  color: string; // CSS colour of the run's overlay lines
+  params: SimulationParams;
+  integrator: IntegratorSettings;
+  recording: DataRecording; // every fixed step of the run, graphed like the live run
+  events: SimulationEvent[];
+  results: DoorResults[]; // one per door
+}
+
+// Key results of one door in a pinned run
+export type DoorResults = Record<ComparedMetric, number>;
+
+export type ComparedMetric = Exclude<OutcomeMetric, 'closingTimeRatio'>;
+
+export const comparedMetrics: ComparedMetric[] = ['closingTime', 'finalAngularVelocity', 'peakKineticEnergy'];
+
+// A parameter that differs between two configurations
+export interface ParameterDifference {
+  label: string;
+  from: string;
+  to: string;
+}
+
+// Overlay colours, distinct from the door colours
+export const pinnedRunColors = ['#e11d48', '#7c3aed', '#65a30d', '#0891b2', '#ea580c', '#64748b'];
+
+// Simulate a configuration to the end and keep it for comparison
+// Every step is recorded for the overlays; the results are evaluated like the sweep's, so
+// the final ω and the end of the peak KE search come from the located impact.
+export async function createPinnedRun(
+  id: number,
+  name: string,
+  color: string,
+  params: SimulationParams,
+  integrator: IntegratorSettings
+): Promise<PinnedRun> {
+  const recording = createDataRecording(createDataPoint(initializeState(params)));
+  const trajectory = await simulateAsync(params, {
+    integrator,
+    onStep: (state) => appendSample(recording, createDataPoint(state)),
+  });
+  return {
+    id,
+    name,
+    color,
+    params,
+    integrator,
+    recording,
+    events: trajectory.events,
+    results: params.doors.map((_, door) =>
+      Object.fromEntries(comparedMetrics.map((metric) =>
+        [metric, evaluateOutcome(trajectory, { metric, door, referenceDoor: door })]
+      )) as DoorResults
+    ),
+  };
+}
+
+const formatParameter = (value: number | undefined) =>
+  value === undefined ? '—' : String(Number(value.toPrecision(4)));
+
+// Parameters of other that differ from base: tunable values, door count,
+// enabled torque models and slide modes
+export function parameterDifferences(base: SimulationParams, other: SimulationParams): ParameterDifference[] {
+  const differences: ParameterDifference[] = [];
+  if (base.doors.length !== other.doors.length) {
+    differences.push({ label: 'Doors', from: String(base.doors.length), to: String(other.doors.length) });
+  }
+
+  const baseValues = new Map(tunableParameters(base).map((parameter) => [parameter.id, parameter]));
+  const otherValues = new Map(tunableParameters(other).map((parameter) => [parameter.id, parameter]));
+  for (const id of new Set([...baseValues.keys(), ...otherValues.keys()])) {
+    const from = baseValues.get(id)?.get(base);
+    const to = otherValues.get(id)?.get(other);
+    if (from === undefined || to === undefined || Math.abs(from - to) > 1e-12 * Math.max(1, Math.abs(from))) {
+      const label = (otherValues.get(id) ?? baseValues.get(id))?.label ?? id;
+      differences.push({ label, from: formatParameter(from), to: formatParameter(to) });
+    }
+  }
+
+  other.doors.forEach((door, i) => {
+    const baseDoor = base.doors[i];
+    if (!baseDoor) return;
+    door.torques.forEach((model) => {
+      const baseModel = baseDoor.torques.find((m) => m.kind === model.kind);
+      if (baseModel && baseModel.enabled !== model.enabled) {
+        differences.push({
+          label: `${door.name} ${torqueLabels[model.kind]}`,
+          from: baseModel.enabled ? 'on' : 'off',
+          to: model.enabled ? 'on' : 'off',
+        });
+      }
+    });
+    door.slidingMasses.forEach((slidingMass, k) => {
+      const baseMass = baseDoor.slidingMasses[k];
+      if (baseMass && baseMass.slideMode !== slidingMass.slideMode) {
+        differences.push({ label: `${door.name} Slide Mode`, from: baseMass.slideMode, to: slidingMass.slideMode });
+      }
+    });
+  });
+
+  return differences;
+}
@@ -0,0 +1,11 @@
+// Comma-separated values with RFC 4180 quoting; non-finite numbers become empty fields
+export type CsvValue = string | number;
+
+function csvField(value: CsvValue): string {
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(csvField).join(',')).join('\n');
+}
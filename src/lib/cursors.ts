@@ -0,0 +1,90 @@
+import { DataPoint, DoorDataPoint } from './physics';
+import { recordedIndexAt } from './replay';
+
+// A per-door quantity drawn against time in the graphs
+export type GraphedQuantity = Exclude<keyof DoorDataPoint, 'radii'>;
+
+// Numbers read off one door's curve with the measurement cursors A and B
+export interface CursorReadout {
+  a?: number; // value at cursor A
+  b?: number; // value at cursor B
+  slopeA?: number; // dy/dt at A, e.g. angular acceleration on the ω graph
+  slopeB?: number;
+  delta?: number; // y(B) − y(A)
+  area?: number; // ∫ y dt from A to B, e.g. the angle swept under ω(t)
+}
+
+// Linear interpolation between the samples around t (undefined outside the run)
+export function valueAt(data: DataPoint[], door: number, quantity: GraphedQuantity, time: number): number | undefined {
+  if (data.length === 0 || time < data[0].time || time > data[data.length - 1].time) return undefined;
+  const low = recordedIndexAt(data, time);
+  const high = Math.min(data.length - 1, low + 1);
+  const before = data[low].doors[door]?.[quantity];
+  const after = data[high].doors[door]?.[quantity];
+  if (before === undefined || after === undefined) return undefined;
+  const span = data[high].time - data[low].time;
+  return span > 0 ? before + ((time - data[low].time) / span) * (after - before) : before;
+}
+
+// Slope of the recorded step containing t: (y_{n+1} − y_n) / (t_{n+1} − t_n)
+export function slopeAt(data: DataPoint[], door: number, quantity: GraphedQuantity, time: number): number | undefined {
+  if (data.length < 2 || time < data[0].time || time > data[data.length - 1].time) return undefined;
+  const low = Math.min(data.length - 2, recordedIndexAt(data, time));
+  const before = data[low].doors[door]?.[quantity];
+  const after = data[low + 1].doors[door]?.[quantity];
+  if (before === undefined || after === undefined) return undefined;
+  return (after - before) / (data[low + 1].time - data[low].time);
+}
+
+// Trapezoidal ∫ y dt over the recorded samples between two times (negative if end < start)
+export function areaBetween(
+  data: DataPoint[],
+  door: number,
+  quantity: GraphedQuantity,
+  start: number,
+  end: number
+): number | undefined {
+  if (end < start) {
+    const area = areaBetween(data, door, quantity, end, start);
+    return area === undefined ? undefined : -area;
+  }
+  const first = valueAt(data, door, quantity, start);
+  const last = valueAt(data, door, quantity, end);
+  if (first === undefined || last === undefined) return undefined;
+
+  // Interpolated end values joined to the samples strictly between them
+  let area = 0;
+  let time = start;
+  let value = first;
+  for (let k = recordedIndexAt(data, start) + 1; k < data.length && data[k].time < end; k++) {
+    const next = data[k].doors[door]?.[quantity];
+    if (next === undefined) return undefined;
+    area += 0.5 * (value + next) * (data[k].time - time);
+    time = data[k].time;
+    value = next;
+  }
+  return area + 0.5 * (value + last) * (end - time);
+}
+
+export function cursorReadout(
+  data: DataPoint[],
+  door: number,
+  quantity: GraphedQuantity,
+  a?: number,
+  b?: number
+): CursorReadout {
+  const readout: CursorReadout = {};
+  if (a !== undefined) {
+    readout.a = valueAt(data, door, quantity, a);
+    readout.slopeA = slopeAt(data, door, quantity, a);
+  }
+  if (b !== undefined) {
+    readout.b = valueAt(data, door, quantity, b);
+    readout.slopeB = slopeAt(data, door, quantity, b);
+  }
+  if (a !== undefined && b !== undefined) {
+    if (readout.a !== undefined && readout.b !== undefined) readout.delta = readout.b - readout.a;
+    readout.area = areaBetween(data, door, quantity, a, b);
+  }
+  return readout;
+}
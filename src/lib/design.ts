@@ -0,0 +1,168 @@
+import { SimulationParams } from './physics';
+import { IntegratorSettings, defaultIntegratorSettings } from './integrators';
+import { TunableParameter, applyParameterValues, tunableParameters } from './parameters';
+import { OutcomeSpec, evaluateOutcome, isOutcomeDetermined } from './outcomes';
+import { levenbergMarquardt } from './optimize';
+import { simulate } from './simulate';
+
+// Inverse design: search the free parameters for values that make an outcome hit a target
+export interface DesignVariable {
+  id: string; // TunableParameter id
+  min: number;
+  max: number;
+}
+
+export interface DesignTarget {
+  outcome: OutcomeSpec;
+  value: number;
+  tolerance: number; // |achieved − value| counted as feasible
+}
+
+export interface DesignOptions {
+  integrator: IntegratorSettings;
+  starts: number; // independent local searches from spread-out starting points
+  maxIterations: number; // per start
+  maxTime: number; // s of simulated time per run
+  signal?: AbortSignal;
+  onProgress?: (start: number, starts: number) => void;
+}
+
+export interface DesignSolution {
+  values: { id: string; label: string; value: number }[];
+  achieved: number; // outcome with these values
+  error: number; // achieved − target
+  feasible: boolean;
+  params: SimulationParams; // input parameters with the solution applied
+}
+
+export const defaultDesignOptions: DesignOptions = {
+  integrator: defaultIntegratorSettings,
+  starts: 6,
+  maxIterations: 15,
+  maxTime: 30,
+};
+
+// Radical inverse of i in the given base, for Halton starting points
+function radicalInverse(i: number, base: number): number {
+  let result = 0;
+  let fraction = 1 / base;
+  for (let n = i; n > 0; n = Math.floor(n / base)) {
+    result += (n % base) * fraction;
+    fraction /= base;
+  }
+  return result;
+}
+
+const HALTON_BASES = [2, 3, 5, 7, 11, 13, 17, 19];
+
+// Residual, in tolerances, of a run whose outcome is undefined
+const UNREACHED_RESIDUAL = 1e3;
+
+// The current values first, then a Halton sequence spread over the bounds
+function startingPoints(initial: number[], variables: DesignVariable[], count: number): number[][] {
+  return Array.from({ length: count }, (_, i) =>
+    i === 0
+      ? initial
+      : variables.map((variable, j) =>
+        variable.min + radicalInverse(i, HALTON_BASES[j % HALTON_BASES.length]) * (variable.max - variable.min)
+      )
+  );
+}
+
+// Multi-start Levenberg–Marquardt on the single residual (achieved − target) / tolerance
+// With more free parameters than targets the feasible set is a curve or surface, so
+// different starts land on different feasible designs; near-duplicates are dropped.
+export async function solveDesign(
+  params: SimulationParams,
+  variables: DesignVariable[],
+  target: DesignTarget,
+  options: Partial<DesignOptions> = {}
+): Promise<DesignSolution[]> {
+  const { integrator, starts, maxIterations, maxTime, signal, onProgress } = { ...defaultDesignOptions, ...options };
+  const catalogue = tunableParameters(params);
+  const parameters = variables.map((variable) => {
+    const parameter = catalogue.find((p) => p.id === variable.id);
+    if (!parameter) throw new Error(`Unknown design parameter: ${variable.id}`);
+    return parameter;
+  });
+  if (parameters.length === 0) throw new Error('No free parameters selected');
+
+  const achieve = (values: number[]) => {
+    const trajectory = simulate(applyParameterValues(params, parameters, values), {
+      integrator,
+      sampleRate: 1 / integrator.timeStep,
+      maxTime,
+      until: (_, events) => isOutcomeDetermined(target.outcome, events),
+    });
+    // Without the door reaching the stop the outcome is undefined (NaN), whatever the metric
+    return isOutcomeDetermined(target.outcome, trajectory.events) ? evaluateOutcome(trajectory, target.outcome) : NaN;
+  };
+
+  // An undefined outcome scores as a closing time of maxTime; for the other metrics maxTime
+  // is no penalty in their units, so they get a fixed residual far outside the tolerance
+  const residualFunction = async (values: number[]) => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const achieved = achieve(values);
+    if (Number.isFinite(achieved)) return [(achieved - target.value) / target.tolerance];
+    return [target.outcome.metric === 'closingTime'
+      ? (maxTime - target.value) / target.tolerance
+      : UNREACHED_RESIDUAL];
+  };
+
+  const solutions: DesignSolution[] = [];
+  const initial = parameters.map((parameter) => parameter.get(params));
+  const points = startingPoints(initial, variables, starts);
+
+  for (let i = 0; i < points.length && !signal?.aborted; i++) {
+    onProgress?.(i, points.length);
+    const result = await levenbergMarquardt(residualFunction, points[i], variables, {
+      maxIterations,
+      targetCost: 0.25, // within half the tolerance
+      signal,
+    });
+    if (signal?.aborted) break;
+
+    const achieved = achieve(result.values);
+    solutions.push(createSolution(params, parameters, result.values, achieved, target));
+  }
+  onProgress?.(points.length, points.length);
+
+  return distinctSolutions(solutions, variables);
+}
+
+function createSolution(
+  params: SimulationParams,
+  parameters: TunableParameter[],
+  values: number[],
+  achieved: number,
+  target: DesignTarget
+): DesignSolution {
+  const error = achieved - target.value;
+  return {
+    values: parameters.map((parameter, j) => ({ id: parameter.id, label: parameter.label, value: values[j] })),
+    achieved,
+    error,
+    feasible: Number.isFinite(achieved) && Math.abs(error) <= target.tolerance,
+    params: applyParameterValues(params, parameters, values),
+  };
+}
+
+// Feasible solutions, best first, dropping any within 1% of the bounds of a better one
+// Without a feasible solution, only the closest attempt is returned
+function distinctSolutions(solutions: DesignSolution[], variables: DesignVariable[]): DesignSolution[] {
+  const errorSize = (solution: DesignSolution) =>
+    Number.isFinite(solution.error) ? Math.abs(solution.error) : Infinity;
+  const ranked = [...solutions].sort((a, b) =>
+    Number(b.feasible) - Number(a.feasible) || errorSize(a) - errorSize(b)
+  );
+  if (!ranked[0]?.feasible) return ranked.slice(0, 1);
+
+  const feasible = ranked.filter((solution) => solution.feasible);
+  return feasible.filter((solution, i) =>
+    !feasible.slice(0, i).some((better) =>
+      better.values.every((entry, j) =>
+        Math.abs(entry.value - solution.values[j].value) <= 0.01 * (variables[j].max - variables[j].min)
+      )
+    )
+  );
+}
@@ -0,0 +1,22 @@
+// Display colours of the doors in the scene, cards and graphs
+// css is for the DOM and charts; the hex values are for the three.js materials and labels
+export interface DoorColor {
+  css: string;
+  hex: number;
+  emissive: number;
+  label: number;
+}
+
+export const doorColors: DoorColor[] = [
+  { css: 'hsl(var(--door-a))', hex: 0x0088cc, emissive: 0x004466, label: 0x0077aa },
+  { css: 'hsl(var(--door-b))', hex: 0xf5a623, emissive: 0x663300, label: 0xd9850e },
+  { css: 'hsl(var(--door-c))', hex: 0x2c9a5a, emissive: 0x0f3d22, label: 0x237d49 },
+  { css: 'hsl(var(--door-d))', hex: 0x8e44ad, emissive: 0x3a1a47, label: 0x763a90 },
+  { css: 'hsl(var(--door-e))', hex: 0xd81b60, emissive: 0x5c0b29, label: 0xb3164f },
+  { css: 'hsl(var(--door-f))', hex: 0x00897b, emissive: 0x003833, label: 0x00736a },
+];
+
+// Colours repeat once there are more doors than palette entries
+export function doorColor(index: number): DoorColor {
+  return doorColors[index % doorColors.length];
+}
@@ -0,0 +1,16 @@
+// Time the browser gets to start reading the file before its object URL is released
+const REVOKE_DELAY = 1000; // ms
+
+// Save generated content as a file through the browser's download prompt
+// The link has to be in the document for some browsers to follow it
+export function downloadFile(filename: string, content: BlobPart, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+}
@@ -0,0 +1,73 @@
+// Energy accounting for a door and its sliding mass
+// L is conserved in torque-free rotation, but kinetic energy is not: the slide actuator,
+// hinge torques, friction and impacts all add or remove energy. The ledger tracks each
+// contribution so that E − E₀ − W + losses stays at zero up to integration error.
+export interface EnergyLedger {
+  rotational: number; // ½Iω², J (includes the mass's tangential motion)
+  radial: number; // ½mṙ², J (sliding mass moving along the track)
+  initial: number; // E₀, kinetic energy at t = 0, J
+  constraintWork: number; // cumulative work done by the prescribed-slide constraint force, J
+  springWork: number; // cumulative work done by conservative hinge torques (springs, closer), J
+  frictionLoss: number; // cumulative dissipation in track friction, hinge damping and friction, J
+  stopLoss: number; // cumulative kinetic energy lost in end-stop and door-stop impacts, J
+  balance: number; // E − E₀ − W_constraint − W_spring + losses (≈ 0), J
+}
+
+export type EnergyChanges = Omit<EnergyLedger, 'initial' | 'balance'>;
+
+// Rotational kinetic energy: KE = ½Iω²
+export function calculateRotationalKineticEnergy(momentOfInertia: number, angularVelocity: number): number {
+  return 0.5 * momentOfInertia * angularVelocity * angularVelocity;
+}
+
+// Radial kinetic energy of the sliding mass: KE = ½mṙ²
+export function calculateRadialKineticEnergy(slidingMass: number, radialVelocity: number): number {
+  return 0.5 * slidingMass * radialVelocity * radialVelocity;
+}
+
+// Radial force the track must exert to move the mass along a prescribed path
+// F_r = m(r̈ − rω²); its power F_r⋅ṙ is the work rate of the constraint
+export function calculateConstraintForce(
+  slidingMass: number,
+  radius: number,
+  radialAcceleration: number,
+  angularVelocity: number
+): number {
+  return slidingMass * (radialAcceleration - radius * angularVelocity * angularVelocity);
+}
+
+// Start a ledger from the initial kinetic energy
+export function createEnergyLedger(rotational: number, radial: number): EnergyLedger {
+  const initial = rotational + radial;
+  return {
+    rotational,
+    radial,
+    initial,
+    constraintWork: 0,
+    springWork: 0,
+    frictionLoss: 0,
+    stopLoss: 0,
+    balance: 0,
+  };
+}
+
+// Replace the ledger entries and recompute the balance check
+export function updateEnergyLedger(ledger: EnergyLedger, changes: EnergyChanges): EnergyLedger {
+  const next = { ...ledger, ...changes };
+  next.balance = next.rotational + next.radial - next.initial
+    - next.constraintWork - next.springWork
+    + next.frictionLoss + next.stopLoss;
+  return next;
+}
+
+export function totalKineticEnergy(ledger: EnergyLedger): number {
+  return ledger.rotational + ledger.radial;
+}
+
+export function totalWork(ledger: EnergyLedger): number {
+  return ledger.constraintWork + ledger.springWork;
+}
+
+export function totalDissipation(ledger: EnergyLedger): number {
+  return ledger.frictionLoss + ledger.stopLoss;
+}
@@ -0,0 +1,106 @@
+import { DoorState, SimulationParams, SimulationState, resolveDoors } from './physics';
+import { totalDissipation, totalWork } from './energy';
+import { Trajectory } from './simulate';
+import { toCsv } from './csv';
+
+// A recorded run: the interactive page's recording or a headless trajectory
+export type RecordedRun = Pick<Trajectory, 'params' | 'integrator' | 'samples' | 'events'>;
+
+// Exported per-door quantities with their units
+interface ExportColumn {
+  key: string;
+  unit: string;
+  get: (door: DoorState) => number;
+}
+
+const doorColumns: ExportColumn[] = [
+  { key: 'theta', unit: 'rad', get: (door) => door.angle },
+  { key: 'omega', unit: 'rad/s', get: (door) => door.angularVelocity },
+  { key: 'I', unit: 'kg*m^2', get: (door) => door.momentOfInertia },
+  { key: 'L', unit: 'kg*m^2/s', get: (door) => door.angularMomentum },
+  { key: 'torque', unit: 'N*m', get: (door) => door.torques.net },
+  { key: 'KE_rotational', unit: 'J', get: (door) => door.energy.rotational },
+  { key: 'KE_radial', unit: 'J', get: (door) => door.energy.radial },
+  { key: 'work', unit: 'J', get: (door) => totalWork(door.energy) },
+  { key: 'loss', unit: 'J', get: (door) => totalDissipation(door.energy) },
+  { key: 'balance', unit: 'J', get: (door) => door.energy.balance },
+  { key: 'stop_impulse', unit: 'kg*m^2/s', get: (door) => door.stopImpulse },
+];
+
+// Units of every field of the exported JSON samples
+export const exportUnits = {
+  time: 's',
+  angle: 'rad',
+  angularVelocity: 'rad/s',
+  momentOfInertia: 'kg*m^2',
+  angularMomentum: 'kg*m^2/s',
+  radius: 'm',
+  radialVelocity: 'm/s',
+  torques: 'N*m',
+  energy: 'J',
+  stopImpulse: 'kg*m^2/s',
+};
+
+// Parameters with linked door properties filled in, so every value is the one simulated
+function effectiveParams(params: SimulationParams): SimulationParams {
+  return { ...params, doors: resolveDoors(params) };
+}
+
+// Column headers for one door, e.g. "Door A omega (rad/s)"
+function doorHeaders(name: string, door: DoorState): string[] {
+  return [
+    ...doorColumns.map((column) => `${name} ${column.key} (${column.unit})`),
+    ...door.masses.flatMap((_, k) => [`${name} r${k + 1} (m)`, `${name} rdot${k + 1} (m/s)`]),
+  ];
+}
+
+function doorRow(door: DoorState): number[] {
+  return [
+    ...doorColumns.map((column) => column.get(door)),
+    ...door.masses.flatMap((mass) => [mass.radius, mass.radialVelocity]),
+  ];
+}
+
+// Settings of the run, written as '#' comment lines ahead of the CSV table
+function csvMetadata(run: RecordedRun): string[] {
+  return [
+    '# Sliding-mass door simulation',
+    `# exported: ${new Date().toISOString()}`,
+    `# integrator: ${run.integrator.method}, time step ${run.integrator.timeStep} s, tolerance ${run.integrator.tolerance}`,
+    `# door-stop restitution: ${run.params.doorStopRestitution}`,
+    `# parameters (JSON, SI units): ${JSON.stringify(effectiveParams(run.params))}`,
+    ...run.events.map((event) =>
+      `# event: ${event.kind} at ${event.time} s, ${run.params.doors[event.door]?.name ?? event.door}`
+        + (event.mass !== undefined ? `, mass ${event.mass + 1}` : '')
+    ),
+  ];
+}
+
+// One row per sample: time then every door's quantities
+export function runToCsv(run: RecordedRun): string {
+  const first: SimulationState | undefined = run.samples[0];
+  const header = [
+    'time (s)',
+    ...(first?.doors ?? []).flatMap((door, i) => doorHeaders(run.params.doors[i]?.name ?? `Door ${i + 1}`, door)),
+  ];
+  const rows = run.samples.map((sample) => [sample.time, ...sample.doors.flatMap(doorRow)]);
+  return [...csvMetadata(run), toCsv([header, ...rows])].join('\n');
+}
+
+// The whole run with a metadata block; samples keep every state field
+export function runToJson(run: RecordedRun): string {
+  return JSON.stringify(
+    {
+      metadata: {
+        exported: new Date().toISOString(),
+        integrator: run.integrator,
+        params: effectiveParams(run.params),
+        units: exportUnits,
+      },
+      events: run.events,
+      samples: run.samples.map((sample) => ({ time: sample.time, phase: sample.phase, doors: sample.doors })),
+    },
+    null,
+    2
+  );
+}
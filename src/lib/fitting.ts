@@ -0,0 +1,164 @@
+import { DataPoint, SimulationParams, createDataPoint } from './physics';
+import { IntegratorSettings, defaultIntegratorSettings } from './integrators';
+import { MeasuredSeries, calculateResiduals, lastMeasuredTime } from './measurements';
+import { TunableParameter, applyParameterValues, tunableParameters } from './parameters';
+import { invertMatrix, levenbergMarquardt, studentTQuantile } from './optimize';
+import { simulate } from './simulate';
+
+// Estimate unknown parameters by least squares on measured ω and θ
+export interface FitOptions {
+  integrator: IntegratorSettings;
+  confidence: number; // confidence level of the reported intervals (0.9, 0.95 or 0.99)
+  maxIterations: number;
+  // End of the fitted window (s); defaults to the last measured time. Ending the window
+  // before the door hits the stop avoids the cost jumping as the impact time shifts.
+  endTime?: number;
+  signal?: AbortSignal;
+  onIteration?: (iteration: number, cost: number) => void;
+}
+
+export interface FittedParameter {
+  id: string;
+  label: string;
+  initial: number;
+  value: number;
+  standardError: number; // NaN when the parameter is not identifiable from the data
+  interval: [number, number]; // value ∓ t⋅standardError
+}
+
+export interface FitResult {
+  parameters: FittedParameter[];
+  params: SimulationParams; // input parameters with the fitted values applied
+  points: number; // number of residuals n
+  rmse: number; // √(SSR / n)
+  rSquared: number; // 1 − SSR / SST
+  reducedChiSquared: number; // SSR / (n − p), the residual variance per degree of freedom
+  iterations: number;
+  converged: boolean;
+}
+
+export const defaultFitOptions: FitOptions = {
+  integrator: defaultIntegratorSettings,
+  confidence: 0.95,
+  maxIterations: 30,
+};
+
+// Simulated data points covering [0, endTime]
+// A run that settles early is extended to endTime: a settled door is either at rest or
+// coasting with constant ω and no torque, so θ continues linearly and ω stays constant.
+function simulateData(params: SimulationParams, endTime: number, integrator: IntegratorSettings): DataPoint[] {
+  const trajectory = simulate(params, { integrator, sampleRate: 1 / integrator.timeStep, maxTime: endTime });
+  const data = trajectory.samples.map(createDataPoint);
+  const last = data[data.length - 1];
+
+  if (last.time < endTime) {
+    const elapsed = endTime - last.time;
+    data.push({
+      time: endTime,
+      doors: last.doors.map((door) => ({ ...door, theta: door.theta + door.omega * elapsed })),
+    });
+  }
+  return data;
+}
+
+// Measured values as one residual vector (ω residuals then θ residuals of each series)
+// Only points in [0, endTime] count, so the vector length does not depend on the parameters
+function residualVector(measurements: MeasuredSeries[], data: DataPoint[]): number[] {
+  return measurements.flatMap((series) => {
+    const residuals = calculateResiduals(series, data);
+    return [
+      ...residuals.flatMap((residual) => (residual.omega !== undefined ? [residual.omega] : [])),
+      ...residuals.flatMap((residual) => (residual.theta !== undefined ? [residual.theta] : [])),
+    ];
+  });
+}
+
+// Measured values in the same order as residualVector, for R²
+function measuredVector(measurements: MeasuredSeries[], endTime: number): number[] {
+  return measurements.flatMap((series) => {
+    const points = series.points.filter((point) => point.time >= 0 && point.time <= endTime);
+    return [
+      ...points.flatMap((point) => (point.omega !== undefined ? [point.omega] : [])),
+      ...points.flatMap((point) => (point.theta !== undefined ? [point.theta] : [])),
+    ];
+  });
+}
+
+// Parameters suggested for fitting: door and sliding masses plus enabled damping coefficients
+export function suggestedFitParameters(params: SimulationParams): string[] {
+  return tunableParameters(params)
+    .filter((parameter) => /\.(doorMass|mass\.\d+\.mass|torque\.viscousDamping\.coefficient)$/.test(parameter.id))
+    .map((parameter) => parameter.id);
+}
+
+// Levenberg–Marquardt fit of the chosen parameters to all measured series
+// Confidence intervals come from the covariance s²(JᵀJ)⁻¹ at the solution, with
+// s² = SSR / (n − p) and a Student-t quantile for n − p degrees of freedom.
+export async function fitParameters(
+  params: SimulationParams,
+  measurements: MeasuredSeries[],
+  parameterIds: string[],
+  options: Partial<FitOptions> = {}
+): Promise<FitResult> {
+  const { integrator, confidence, maxIterations, endTime: windowEnd, signal, onIteration } = {
+    ...defaultFitOptions,
+    ...options,
+  };
+  const catalogue = tunableParameters(params);
+  const free = parameterIds.map((id) => catalogue.find((parameter) => parameter.id === id))
+    .filter((parameter): parameter is TunableParameter => parameter !== undefined);
+  if (free.length === 0) throw new Error('No parameters selected for fitting');
+
+  const endTime = Math.min(lastMeasuredTime(measurements), windowEnd ?? Infinity);
+  if (!(endTime > 0)) throw new Error('Measured data has no points after t = 0');
+
+  const residualFunction = async (values: number[]) => {
+    // Yield between simulations so the page stays responsive
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    return residualVector(measurements, simulateData(applyParameterValues(params, free, values), endTime, integrator));
+  };
+
+  const initial = free.map((parameter) => parameter.get(params));
+  const solution = await levenbergMarquardt(
+    residualFunction,
+    initial,
+    free.map((parameter) => ({ min: parameter.min, max: parameter.max })),
+    { maxIterations, signal, onIteration: (iteration, cost) => onIteration?.(iteration, cost) }
+  );
+
+  const n = solution.residuals.length;
+  const p = free.length;
+  const degreesOfFreedom = Math.max(1, n - p);
+  const variance = solution.cost / degreesOfFreedom;
+  const jtj = free.map((_, a) => free.map((__, b) =>
+    solution.jacobian.reduce((sum, row) => sum + row[a] * row[b], 0)
+  ));
+  const covariance = invertMatrix(jtj);
+  const t = studentTQuantile(confidence, degreesOfFreedom);
+
+  const measured = measuredVector(measurements, endTime);
+  const mean = measured.reduce((sum, value) => sum + value, 0) / Math.max(1, measured.length);
+  const totalSumOfSquares = measured.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+
+  return {
+    parameters: free.map((parameter, j) => {
+      const standardError = covariance && covariance[j][j] >= 0 ? Math.sqrt(variance * covariance[j][j]) : NaN;
+      const value = solution.values[j];
+      return {
+        id: parameter.id,
+        label: parameter.label,
+        initial: initial[j],
+        value,
+        standardError,
+        interval: [value - t * standardError, value + t * standardError],
+      };
+    }),
+    params: applyParameterValues(params, free, solution.values),
+    points: n,
+    rmse: Math.sqrt(solution.cost / Math.max(1, n)),
+    rSquared: totalSumOfSquares > 0 ? 1 - solution.cost / totalSumOfSquares : NaN,
+    reducedChiSquared: variance,
+    iterations: solution.iterations,
+    converged: solution.converged,
+  };
+}
@@ -0,0 +1,199 @@
+// Numerical integrators for the simulation's ordinary differential equations
+export type IntegratorMethod = 'euler' | 'semi-implicit-euler' | 'rk4' | 'rk45';
+
+export interface IntegratorSettings {
+  method: IntegratorMethod;
+  timeStep: number; // seconds per fixed step (h)
+  maxSubSteps: number; // fixed steps allowed per animation frame at real-time speed
+  tolerance: number; // local error tolerance (RK45 only)
+}
+
+// A first-order system dy/dt = f(t, y)
+export interface OdeSystem {
+  derivative: (t: number, y: number[]) => number[];
+  // Components treated as momenta by semi-implicit Euler:
+  // they are advanced first, and the remaining components use the updated values
+  momentumIndices?: number[];
+}
+
+export const integratorLabels: Record<IntegratorMethod, string> = {
+  euler: 'Euler',
+  'semi-implicit-euler': 'Semi-implicit Euler',
+  rk4: 'RK4',
+  rk45: 'Adaptive RK45',
+};
+
+// Default integrator settings
+// 1 ms steps keep RK4 well below display precision for the default parameters
+export const defaultIntegratorSettings: IntegratorSettings = {
+  method: 'rk4',
+  timeStep: 0.001,
+  maxSubSteps: 250,
+  tolerance: 1e-9,
+};
+
+// y + h * k
+function axpy(y: number[], h: number, k: number[]): number[] {
+  return y.map((value, i) => value + h * k[i]);
+}
+
+// Explicit (forward) Euler: y_{n+1} = y_n + h * f(t_n, y_n)
+export function eulerStep(system: OdeSystem, t: number, y: number[], h: number): number[] {
+  return axpy(y, h, system.derivative(t, y));
+}
+
+// Semi-implicit (symplectic) Euler: momenta first, then positions with the new momenta
+export function semiImplicitEulerStep(system: OdeSystem, t: number, y: number[], h: number): number[] {
+  const momentumIndices = system.momentumIndices ?? [];
+  const k1 = system.derivative(t, y);
+  const next = [...y];
+  for (const i of momentumIndices) {
+    next[i] = y[i] + h * k1[i];
+  }
+  const k2 = system.derivative(t, next);
+  for (let i = 0; i < y.length; i++) {
+    if (!momentumIndices.includes(i)) {
+      next[i] = y[i] + h * k2[i];
+    }
+  }
+  return next;
+}
+
+// Classical fourth-order Runge–Kutta
+export function rk4Step(system: OdeSystem, t: number, y: number[], h: number): number[] {
+  const k1 = system.derivative(t, y);
+  const k2 = system.derivative(t + h / 2, axpy(y, h / 2, k1));
+  const k3 = system.derivative(t + h / 2, axpy(y, h / 2, k2));
+  const k4 = system.derivative(t + h, axpy(y, h, k3));
+  return y.map((value, i) => value + (h / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]));
+}
+
+// Dormand–Prince 5(4) tableau
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+
+// One Dormand–Prince trial step, returning the 5th-order solution and its error estimate
+function dormandPrinceTrial(
+  system: OdeSystem,
+  t: number,
+  y: number[],
+  h: number
+): { y: number[]; error: number } {
+  const k: number[][] = [];
+  for (let stage = 0; stage < 7; stage++) {
+    const yStage = y.map((value, i) =>
+      value + h * DP_A[stage].reduce((sum, a, j) => sum + a * k[j][i], 0)
+    );
+    k.push(system.derivative(t + DP_C[stage] * h, yStage));
+  }
+
+  const y5 = y.map((value, i) => value + h * DP_B5.reduce((sum, b, s) => sum + b * k[s][i], 0));
+  let error = 0;
+  for (let i = 0; i < y.length; i++) {
+    const y4 = y[i] + h * DP_B4.reduce((sum, b, s) => sum + b * k[s][i], 0);
+    const scale = 1 + Math.max(Math.abs(y[i]), Math.abs(y5[i]));
+    error = Math.max(error, Math.abs(y5[i] - y4) / scale);
+  }
+  return { y: y5, error };
+}
+
+// Adaptive RK45 across one fixed step h, sub-dividing until the local error is within tolerance
+export function rk45Step(
+  system: OdeSystem,
+  t: number,
+  y: number[],
+  h: number,
+  tolerance: number
+): number[] {
+  const end = t + h;
+  const minStep = h * 1e-6;
+  let current = y;
+  let time = t;
+  let step = h;
+
+  while (end - time > minStep) {
+    step = Math.min(step, end - time);
+    const trial = dormandPrinceTrial(system, time, current, step);
+
+    if (trial.error <= tolerance || step <= minStep) {
+      current = trial.y;
+      time += step;
+    }
+
+    // Standard step-size controller with safety factor and growth limits
+    const factor = trial.error === 0
+      ? 5
+      : Math.min(5, Math.max(0.2, 0.9 * Math.pow(tolerance / trial.error, 1 / 5)));
+    step = Math.max(minStep, step * factor);
+  }
+
+  return current;
+}
+
+// Advance the system by exactly one fixed step h using the chosen method
+export function integrate(
+  system: OdeSystem,
+  t: number,
+  y: number[],
+  h: number,
+  settings: IntegratorSettings
+): number[] {
+  switch (settings.method) {
+    case 'euler':
+      return eulerStep(system, t, y, h);
+    case 'semi-implicit-euler':
+      return semiImplicitEulerStep(system, t, y, h);
+    case 'rk45':
+      return rk45Step(system, t, y, h, settings.tolerance);
+    case 'rk4':
+    default:
+      return rk4Step(system, t, y, h);
+  }
+}
+
+// Restrict stage times to the interior of [start, end] so that a derivative with a jump
+// at either end is evaluated on the correct side of it
+function withinSegment(system: OdeSystem, start: number, end: number): OdeSystem {
+  const margin = (end - start) * 1e-9;
+  return {
+    ...system,
+    derivative: (t, y) => system.derivative(Math.min(end - margin, Math.max(start + margin, t)), y),
+  };
+}
+
+// Advance by one fixed step h, splitting it at any breakpoints inside (t, t + h)
+// where the derivative is discontinuous, so no stage straddles a jump
+export function integrateWithBreakpoints(
+  system: OdeSystem,
+  t: number,
+  y: number[],
+  h: number,
+  settings: IntegratorSettings,
+  breakpoints: number[]
+): number[] {
+  const end = t + h;
+  let current = y;
+  let time = t;
+
+  for (const breakpoint of [...breakpoints].sort((a, b) => a - b)) {
+    if (breakpoint < time || breakpoint > end) continue;
+    if (breakpoint > time) {
+      current = integrate(withinSegment(system, time, breakpoint), time, current, breakpoint - time, settings);
+      time = breakpoint;
+    }
+  }
+
+  return end > time
+    ? integrate(withinSegment(system, time, end), time, current, end - time, settings)
+    : current;
+}
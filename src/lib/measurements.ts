@@ -0,0 +1,221 @@
+import { DataPoint } from './physics';
+
+// Measured door motion imported from CSV (e.g. a phone gyroscope recorded with phyphox)
+export type MeasuredQuantity = 'omega' | 'theta';
+
+export type TimeUnit = 's' | 'ms';
+export type AngularVelocityUnit = 'rad/s' | 'deg/s' | 'rpm';
+export type AngleUnit = 'rad' | 'deg';
+
+// SI conversion factors
+const timeUnitScale: Record<TimeUnit, number> = { s: 1, ms: 1e-3 };
+const angularVelocityUnitScale: Record<AngularVelocityUnit, number> = {
+  'rad/s': 1,
+  'deg/s': Math.PI / 180,
+  rpm: (2 * Math.PI) / 60,
+};
+const angleUnitScale: Record<AngleUnit, number> = { rad: 1, deg: Math.PI / 180 };
+
+export const timeUnits = Object.keys(timeUnitScale) as TimeUnit[];
+export const angularVelocityUnits = Object.keys(angularVelocityUnitScale) as AngularVelocityUnit[];
+export const angleUnits = Object.keys(angleUnitScale) as AngleUnit[];
+
+export interface CsvTable {
+  headers: string[];
+  rows: number[][]; // NaN where a cell is empty or not a number
+}
+
+// Which CSV columns hold which quantity (column indices), and their units
+export interface ColumnMapping {
+  time: number;
+  omega: number | null;
+  theta: number | null;
+  timeUnit: TimeUnit;
+  omegaUnit: AngularVelocityUnit;
+  thetaUnit: AngleUnit;
+  timeOffset: number; // s subtracted from the measured times, to line up with t = 0 of the run
+  invertSign: boolean; // flip ω and θ when the sensor axis points the other way
+}
+
+export interface MeasuredPoint {
+  time: number; // s
+  omega?: number; // rad/s
+  theta?: number; // rad
+}
+
+export interface MeasuredSeries {
+  name: string; // file name
+  door: number; // simulated door compared against
+  points: MeasuredPoint[];
+}
+
+// Measured minus simulated value at one measured time
+export interface ResidualPoint {
+  time: number; // s
+  omega?: number; // rad/s
+  theta?: number; // rad
+}
+
+// Split one CSV line, honouring double-quoted fields
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map((f) => f.trim());
+}
+
+// Parse a CSV export into a header row and numeric rows
+// The delimiter (comma, semicolon or tab) is detected from the header line; with semicolon
+// or tab delimiters a decimal comma is accepted, as in phyphox exports for European locales.
+// Lines starting with '#' are skipped.
+export function parseCsv(text: string): CsvTable {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '' && !line.startsWith('#'));
+  if (lines.length === 0) return { headers: [], rows: [] };
+
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    lines[0].split(candidate).length > lines[0].split(best).length ? candidate : best
+  );
+  const decimalComma = delimiter !== ',';
+  const headers = splitCsvLine(lines[0], delimiter);
+  const rows = lines.slice(1).map((line) =>
+    splitCsvLine(line, delimiter).map((cell) =>
+      cell === '' ? NaN : Number(decimalComma ? cell.replace(',', '.') : cell)
+    )
+  );
+
+  return { headers, rows };
+}
+
+// Unit written in a header such as "Gyroscope z (rad/s)" or "omega [deg/s]"
+function headerUnit(header: string): string {
+  const match = header.match(/[([]\s*([^)\]]+?)\s*[)\]]/);
+  return match ? match[1].toLowerCase().replace('°', 'deg') : '';
+}
+
+// Best-guess mapping for phyphox gyroscope exports and generic time/ω/θ columns
+// phyphox "Gyroscope z" is the rotation about the axis normal to the screen,
+// i.e. about the hinge for a phone lying flat against the door
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const find = (pattern: RegExp) => {
+    const index = headers.findIndex((header) => pattern.test(header));
+    return index >= 0 ? index : null;
+  };
+
+  const time = find(/^\s*(time|t)\b/i) ?? 0;
+  const omega = find(/gyroscope\s*z/i) ?? find(/omega|ω|angular\s*velocity|gyro/i);
+  const theta = find(/theta|θ|angle/i);
+  const omegaUnit = omega !== null ? headerUnit(headers[omega]) : '';
+  const thetaUnit = theta !== null ? headerUnit(headers[theta]) : '';
+
+  return {
+    time,
+    omega,
+    theta,
+    timeUnit: headerUnit(headers[time] ?? '') === 'ms' ? 'ms' : 's',
+    omegaUnit: omegaUnit.includes('deg') ? 'deg/s' : omegaUnit === 'rpm' ? 'rpm' : 'rad/s',
+    thetaUnit: thetaUnit.includes('deg') ? 'deg' : 'rad',
+    timeOffset: 0,
+    invertSign: false,
+  };
+}
+
+// Convert mapped CSV columns to SI points, dropping rows without a valid time
+export function createMeasuredSeries(
+  table: CsvTable,
+  mapping: ColumnMapping,
+  name: string,
+  door: number
+): MeasuredSeries {
+  const sign = mapping.invertSign ? -1 : 1;
+  const points = table.rows
+    .filter((row) => Number.isFinite(row[mapping.time]))
+    .map((row) => {
+      const point: MeasuredPoint = { time: row[mapping.time] * timeUnitScale[mapping.timeUnit] - mapping.timeOffset };
+      if (mapping.omega !== null && Number.isFinite(row[mapping.omega])) {
+        point.omega = sign * row[mapping.omega] * angularVelocityUnitScale[mapping.omegaUnit];
+      }
+      if (mapping.theta !== null && Number.isFinite(row[mapping.theta])) {
+        point.theta = sign * row[mapping.theta] * angleUnitScale[mapping.thetaUnit];
+      }
+      return point;
+    })
+    .sort((a, b) => a.time - b.time);
+
+  return { name, door, points };
+}
+
+// Latest time of any measured point (-Infinity without points)
+// A loop rather than Math.max(...times): an import can have more points than a call takes arguments
+export function lastMeasuredTime(measurements: MeasuredSeries[]): number {
+  return measurements.reduce(
+    (latest, series) => series.points.reduce((seriesLatest, point) => Math.max(seriesLatest, point.time), latest),
+    -Infinity
+  );
+}
+
+// Linear interpolation of a simulated door quantity at time t (undefined outside the run)
+function interpolateSimulated(
+  data: DataPoint[],
+  door: number,
+  quantity: MeasuredQuantity,
+  time: number
+): number | undefined {
+  if (data.length === 0 || time < data[0].time || time > data[data.length - 1].time) return undefined;
+
+  // Binary search for the last sample at or before t
+  let low = 0;
+  let high = data.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (data[mid].time <= time) low = mid;
+    else high = mid;
+  }
+
+  const before = data[low].doors[door]?.[quantity];
+  const after = data[high].doors[door]?.[quantity];
+  if (before === undefined || after === undefined) return undefined;
+  const span = data[high].time - data[low].time;
+  return span > 0 ? before + ((time - data[low].time) / span) * (after - before) : before;
+}
+
+// Measured minus simulated values wherever the measurement overlaps the simulated run
+export function calculateResiduals(series: MeasuredSeries, data: DataPoint[]): ResidualPoint[] {
+  return series.points.flatMap((point) => {
+    const residual: ResidualPoint = { time: point.time };
+    for (const quantity of ['omega', 'theta'] as const) {
+      const measured = point[quantity];
+      const simulated = interpolateSimulated(data, series.door, quantity, point.time);
+      if (measured !== undefined && simulated !== undefined) residual[quantity] = measured - simulated;
+    }
+    return residual.omega !== undefined || residual.theta !== undefined ? [residual] : [];
+  });
+}
+
+// Root-mean-square residual of one quantity (NaN without overlap)
+export function rmsResidual(residuals: ResidualPoint[], quantity: MeasuredQuantity): number {
+  const values = residuals.flatMap((residual) => residual[quantity] !== undefined ? [residual[quantity] as number] : []);
+  if (values.length === 0) return NaN;
+  return Math.sqrt(values.reduce((sum, value) => sum + value * value, 0) / values.length);
+}
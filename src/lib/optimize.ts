@@ -0,0 +1,192 @@
+// Bounded nonlinear least squares for fitting and design on the headless engine
+// Residual functions are async so long-running optimisations can yield to the page.
+export type ResidualFunction = (values: number[]) => Promise<number[]>;
+
+export interface Bounds {
+  min: number;
+  max: number;
+}
+
+export interface LeastSquaresOptions {
+  maxIterations: number;
+  tolerance: number; // relative change in cost or parameters that counts as converged
+  targetCost?: number; // stop as soon as Σ r_i² falls to this value
+  signal?: AbortSignal;
+  onIteration?: (iteration: number, cost: number, values: number[]) => void;
+}
+
+export interface LeastSquaresResult {
+  values: number[];
+  residuals: number[];
+  jacobian: number[][]; // ∂r_i/∂p_j at the solution
+  cost: number; // Σ r_i²
+  iterations: number;
+  converged: boolean;
+}
+
+export const defaultLeastSquaresOptions: LeastSquaresOptions = {
+  maxIterations: 40,
+  tolerance: 1e-6,
+};
+
+function sumOfSquares(residuals: number[]): number {
+  return residuals.reduce((sum, r) => sum + r * r, 0);
+}
+
+function clamp(value: number, bounds: Bounds): number {
+  return Math.min(bounds.max, Math.max(bounds.min, value));
+}
+
+// Solve A x = b by Gaussian elimination with partial pivoting (null if singular)
+export function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-300) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+// Inverse of a small square matrix, column by column (null if singular)
+export function invertMatrix(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const columns: number[][] = [];
+  for (let j = 0; j < n; j++) {
+    const column = solveLinearSystem(matrix, matrix.map((_, i) => (i === j ? 1 : 0)));
+    if (!column) return null;
+    columns.push(column);
+  }
+  return matrix.map((_, i) => columns.map((column) => column[i]));
+}
+
+// JᵀJ and Jᵀr
+function normalEquations(jacobian: number[][], residuals: number[]): { jtj: number[][]; jtr: number[] } {
+  const m = jacobian[0]?.length ?? 0;
+  const jtj = Array.from({ length: m }, () => new Array<number>(m).fill(0));
+  const jtr = new Array<number>(m).fill(0);
+  jacobian.forEach((row, i) => {
+    for (let a = 0; a < m; a++) {
+      jtr[a] += row[a] * residuals[i];
+      for (let b = 0; b < m; b++) jtj[a][b] += row[a] * row[b];
+    }
+  });
+  return { jtj, jtr };
+}
+
+// Forward-difference Jacobian, stepping inwards at a bound
+async function finiteDifferenceJacobian(
+  residualFunction: ResidualFunction,
+  values: number[],
+  residuals: number[],
+  bounds: Bounds[]
+): Promise<number[][]> {
+  const jacobian = residuals.map(() => new Array<number>(values.length).fill(0));
+
+  for (let j = 0; j < values.length; j++) {
+    // Steps of 0.1% of the range stay above the engine's time-step granularity
+    const range = bounds[j].max - bounds[j].min;
+    const step = values[j] + 1e-3 * range > bounds[j].max ? -1e-3 * range : 1e-3 * range;
+    const shifted = values.map((value, k) => (k === j ? value + step : value));
+    const shiftedResiduals = await residualFunction(shifted);
+    residuals.forEach((r, i) => {
+      jacobian[i][j] = (shiftedResiduals[i] - r) / step;
+    });
+  }
+  return jacobian;
+}
+
+// Levenberg–Marquardt minimisation of Σ r_i(p)² within box bounds
+// Marquardt scaling (JᵀJ + λ diag(JᵀJ)) δ = −Jᵀr; trial points are clamped to the bounds.
+export async function levenbergMarquardt(
+  residualFunction: ResidualFunction,
+  initial: number[],
+  bounds: Bounds[],
+  options: Partial<LeastSquaresOptions> = {}
+): Promise<LeastSquaresResult> {
+  const { maxIterations, tolerance, targetCost = 0, signal, onIteration } = {
+    ...defaultLeastSquaresOptions,
+    ...options,
+  };
+
+  let values = initial.map((value, j) => clamp(value, bounds[j]));
+  let residuals = await residualFunction(values);
+  let cost = sumOfSquares(residuals);
+  let jacobian = await finiteDifferenceJacobian(residualFunction, values, residuals, bounds);
+  let lambda = 1e-3;
+  let iterations = 0;
+  let converged = cost <= targetCost;
+
+  while (iterations < maxIterations && !converged && !signal?.aborted) {
+    iterations++;
+    const { jtj, jtr } = normalEquations(jacobian, residuals);
+    let improved = false;
+
+    while (lambda < 1e10 && !signal?.aborted) {
+      const damped = jtj.map((row, a) => row.map((value, b) => (a === b ? value + lambda * Math.max(value, 1e-12) : value)));
+      const delta = solveLinearSystem(damped, jtr.map((g) => -g));
+      if (!delta) {
+        lambda *= 10;
+        continue;
+      }
+
+      const trial = values.map((value, j) => clamp(value + delta[j], bounds[j]));
+      const trialResiduals = await residualFunction(trial);
+      const trialCost = sumOfSquares(trialResiduals);
+
+      if (trialCost < cost) {
+        const costChange = (cost - trialCost) / Math.max(cost, Number.MIN_VALUE);
+        const stepSize = Math.max(
+          ...trial.map((value, j) => Math.abs(value - values[j]) / (bounds[j].max - bounds[j].min))
+        );
+        values = trial;
+        residuals = trialResiduals;
+        cost = trialCost;
+        lambda = Math.max(lambda / 10, 1e-12);
+        improved = true;
+        converged = costChange < tolerance || stepSize < tolerance || cost <= targetCost;
+        break;
+      }
+      lambda *= 10;
+    }
+
+    // No downhill step at any damping: a (bounded) local minimum
+    if (!improved) {
+      converged = !signal?.aborted;
+      break;
+    }
+
+    jacobian = await finiteDifferenceJacobian(residualFunction, values, residuals, bounds);
+    onIteration?.(iterations, cost, values);
+  }
+
+  return { values, residuals, jacobian, cost, iterations, converged };
+}
+
+// Two-sided Student-t quantile for a 90, 95 or 99 % confidence level with ν degrees of freedom
+// (Cornish–Fisher expansion about the normal quantile z; within 1 % of tables for ν ≥ 3)
+export function studentTQuantile(confidence: number, degreesOfFreedom: number): number {
+  const z = confidence >= 0.99 ? 2.5758 : confidence >= 0.95 ? 1.96 : 1.6449;
+  const v = Math.max(1, degreesOfFreedom);
+  return z
+    + (z ** 3 + z) / (4 * v)
+    + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * v * v)
+    + (3 * z ** 7 + 19 * z ** 5 + 17 * z ** 3 - 15 * z) / (384 * v ** 3);
+}
@@ -0,0 +1,92 @@
+import { totalKineticEnergy } from './energy';
+import { SimulationState } from './physics';
+import { SimulationEvent, Trajectory } from './simulate';
+
+// Scalar outcomes of a simulated run, compared across sweeps and design studies
+// 'closingTime': time at which the door first reaches the stop (NaN if it never does)
+// 'closingTimeRatio': closing time of the door divided by that of the reference door
+// 'finalAngularVelocity': ω at the end of the free swing, just before the first stop impact
+// 'peakKineticEnergy': largest kinetic energy ½Iω² + ½mṙ² during the free swing, over the
+// samples and the state at the impact
+export type OutcomeMetric = 'closingTime' | 'closingTimeRatio' | 'finalAngularVelocity' | 'peakKineticEnergy';
+
+export interface OutcomeSpec {
+  metric: OutcomeMetric;
+  door: number; // index into params.doors
+  referenceDoor: number; // denominator of 'closingTimeRatio'
+}
+
+export const outcomeLabels: Record<OutcomeMetric, string> = {
+  closingTime: 'Closing Time (s)',
+  closingTimeRatio: 'Closing-Time Ratio',
+  finalAngularVelocity: 'Final ω (rad/s)',
+  peakKineticEnergy: 'Peak KE (J)',
+};
+
+export const defaultOutcome: OutcomeSpec = {
+  metric: 'closingTime',
+  door: 0,
+  referenceDoor: 1,
+};
+
+// The door's first stop impact (undefined if it never reaches the stop)
+function firstImpact(trajectory: Trajectory, door: number): SimulationEvent | undefined {
+  return trajectory.events.find((event) => event.kind === 'doorClosed' && event.door === door);
+}
+
+// Time at which the door first hit the stop (NaN if it never does)
+function impactTime(trajectory: Trajectory, door: number): number {
+  return firstImpact(trajectory, door)?.time ?? NaN;
+}
+
+// Samples before the door's first stop impact, ending with the state at the impact itself
+// (all samples if it never reaches the stop), so the end of the swing does not depend on
+// the sample rate
+function freeSwing(trajectory: Trajectory, door: number): SimulationState[] {
+  const impact = firstImpact(trajectory, door);
+  if (!impact?.state) return trajectory.samples;
+  return [...trajectory.samples.filter((sample) => sample.time < impact.time), impact.state];
+}
+
+// Time at which the door first reaches MAX_DOOR_ANGLE
+// The event is located inside its step, so the result varies smoothly with the parameters
+// instead of in whole time steps
+export function closingTime(trajectory: Trajectory, door: number): number {
+  return impactTime(trajectory, door);
+}
+
+// Whether a run has progressed far enough to evaluate the outcome: every door involved has
+// reached the stop (later motion changes none of the metrics up to that point)
+export function isOutcomeDetermined(outcome: OutcomeSpec, events: SimulationEvent[]): boolean {
+  const doors = outcome.metric === 'closingTimeRatio' ? [outcome.door, outcome.referenceDoor] : [outcome.door];
+  return doors.every((door) => events.some((event) => event.kind === 'doorClosed' && event.door === door));
+}
+
+// Evaluate an outcome of a finished run
+export function evaluateOutcome(trajectory: Trajectory, outcome: OutcomeSpec): number {
+  switch (outcome.metric) {
+    case 'closingTime':
+      return closingTime(trajectory, outcome.door);
+    case 'closingTimeRatio':
+      return closingTime(trajectory, outcome.door) / closingTime(trajectory, outcome.referenceDoor);
+    case 'finalAngularVelocity': {
+      const swing = freeSwing(trajectory, outcome.door);
+      return swing[swing.length - 1].doors[outcome.door].angularVelocity;
+    }
+    case 'peakKineticEnergy':
+      // A loop rather than Math.max(...energies): a run sampled every step has more samples
+      // than a call takes arguments
+      return freeSwing(trajectory, outcome.door).reduce(
+        (peak, sample) => Math.max(peak, totalKineticEnergy(sample.doors[outcome.door].energy)),
+        -Infinity
+      );
+  }
+}
+
+// Human-readable name of an outcome for the given door names
+export function outcomeName(outcome: OutcomeSpec, doorNames: string[]): string {
+  const door = doorNames[outcome.door] ?? '';
+  return outcome.metric === 'closingTimeRatio'
+    ? `${door} / ${doorNames[outcome.referenceDoor] ?? ''} ${outcomeLabels[outcome.metric]}`
+    : `${door} ${outcomeLabels[outcome.metric]}`;
+}
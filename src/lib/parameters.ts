@@ -0,0 +1,116 @@
+import { DoorPropertyKey, SimulationParams, SlidingMassParams, doorProperty } from './physics';
+import { TorqueModel, torqueCoefficient, torqueFields, torqueLabels } from './torques';
+
+// A numeric parameter that sweeps, fits and design studies can vary
+export interface TunableParameter {
+  id: string; // stable key, e.g. 'door.0.mass.0.finalRadius'
+  label: string; // with unit
+  min: number; // default range (and bounds when fitting)
+  max: number;
+  get: (params: SimulationParams) => number;
+  set: (params: SimulationParams, value: number) => SimulationParams;
+}
+
+const doorPropertyControls: { key: DoorPropertyKey; label: string; min: number; max: number }[] = [
+  { key: 'doorMass', label: 'Door Mass (kg)', min: 10, max: 60 },
+  { key: 'doorWidth', label: 'Door Width (m)', min: 0.6, max: 1.4 },
+  { key: 'initialAngularVelocity', label: 'Initial ω₁ (rad/s)', min: 0.5, max: 4.0 },
+];
+
+// Numeric fields of a sliding mass (all but its slide mode)
+type SlidingMassNumber = Exclude<keyof SlidingMassParams, 'slideMode'>;
+
+const slidingMassControls: { key: SlidingMassNumber; label: string; min: number; max: number }[] = [
+  { key: 'mass', label: 'Sliding Mass (kg)', min: 1, max: 15 },
+  { key: 'initialRadius', label: 'Initial Radius r₁ (m)', min: 0.05, max: 0.3 },
+  { key: 'finalRadius', label: 'Final Radius r₂ (m)', min: 0.4, max: 1.0 },
+  { key: 'slideDuration', label: 'Slide Duration (s)', min: 0.1, max: 3.0 },
+  { key: 'trackFriction', label: 'Track Friction μ', min: 0, max: 0.5 },
+  { key: 'endStopRestitution', label: 'End-Stop Restitution e', min: 0, max: 1 },
+];
+
+function updateDoor(
+  params: SimulationParams,
+  doorIndex: number,
+  update: (door: SimulationParams['doors'][number]) => SimulationParams['doors'][number]
+): SimulationParams {
+  return { ...params, doors: params.doors.map((door, i) => i === doorIndex ? update(door) : door) };
+}
+
+// Every numeric parameter of the given configuration that can be varied
+// Setting a door property unlinks it on that door; doors linked to the first door's
+// value follow a change to the first door's property
+export function tunableParameters(params: SimulationParams): TunableParameter[] {
+  const parameters: TunableParameter[] = [
+    {
+      id: 'doorStopRestitution',
+      label: 'Door-Stop Restitution e',
+      min: 0,
+      max: 1,
+      get: (p) => p.doorStopRestitution,
+      set: (p, value) => ({ ...p, doorStopRestitution: value }),
+    },
+  ];
+
+  params.doors.forEach((door, i) => {
+    for (const control of doorPropertyControls) {
+      parameters.push({
+        id: `door.${i}.${control.key}`,
+        label: `${door.name} ${control.label}`,
+        min: control.min,
+        max: control.max,
+        get: (p) => doorProperty(p, i, control.key),
+        set: (p, value) => updateDoor(p, i, (d) => ({
+          ...d,
+          [control.key]: value,
+          links: { ...d.links, [control.key]: false },
+        })),
+      });
+    }
+
+    door.slidingMasses.forEach((_, k) => {
+      const massName = door.slidingMasses.length > 1 ? ` Mass ${k + 1}` : '';
+      for (const control of slidingMassControls) {
+        parameters.push({
+          id: `door.${i}.mass.${k}.${control.key}`,
+          label: `${door.name}${massName} ${control.label}`,
+          min: control.min,
+          max: control.max,
+          get: (p) => p.doors[i].slidingMasses[k][control.key],
+          set: (p, value) => updateDoor(p, i, (d) => ({
+            ...d,
+            slidingMasses: d.slidingMasses.map((m, n) => n === k ? { ...m, [control.key]: value } : m),
+          })),
+        });
+      }
+    });
+
+    door.torques.forEach((model, k) => {
+      if (!model.enabled) return;
+      for (const field of torqueFields[model.kind]) {
+        parameters.push({
+          id: `door.${i}.torque.${model.kind}.${field.key}`,
+          label: `${door.name} ${torqueLabels[model.kind]} ${field.label}`,
+          min: field.min,
+          max: field.max,
+          get: (p) => torqueCoefficient(p.doors[i].torques[k], field.key),
+          set: (p, value) => updateDoor(p, i, (d) => ({
+            ...d,
+            torques: d.torques.map((m, n) => n === k ? ({ ...m, [field.key]: value } as TorqueModel) : m),
+          })),
+        });
+      }
+    });
+  });
+
+  return parameters;
+}
+
+// Set several parameters at once, in order
+export function applyParameterValues(
+  params: SimulationParams,
+  parameters: TunableParameter[],
+  values: number[]
+): SimulationParams {
+  return parameters.reduce((result, parameter, i) => parameter.set(result, values[i]), params);
+}
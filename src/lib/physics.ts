@@ -1,50 +1,117 @@
+import { IntegratorSettings, OdeSystem, defaultIntegratorSettings, integrateWithBreakpoints } from './integrators';
+import { TorqueBreakdown, TorqueModel, calculateTorques, createDefaultTorqueModels } from './torques';
+import {
+  EnergyLedger,
+  calculateConstraintForce,
+  calculateRadialKineticEnergy,
+  calculateRotationalKineticEnergy,
+  createEnergyLedger,
+  totalDissipation,
+  totalKineticEnergy,
+  totalWork,
+  updateEnergyLedger,
+} from './energy';
+
 // Physics simulation parameters and state
-export interface SimulationParams {
-  // Door parameters (both doors)
-  doorMass: number; // kg (M_d)
-  doorWidth: number; // meters (W)
-  
-  // Sliding mass parameters (Door A only)
-  slidingMass: number; // kg (m)
+// 'prescribed': mass follows an ease-in-out path over slideDuration
+// 'free': mass radius obeys r̈ = rω² − μg, coupled to the door's ω
+export type SlideMode = 'prescribed' | 'free';
+
+// A point mass sliding along a radial track on a door
+export interface SlidingMassParams {
+  mass: number; // kg (m)
   initialRadius: number; // meters (r_1)
   finalRadius: number; // meters (r_2)
   slideDuration: number; // seconds (t_slide)
-  
-  // Initial conditions
+  slideMode: SlideMode; // how the sliding mass moves along its track
+  trackFriction: number; // kinetic friction coefficient of the track (μ, free slide only)
+  endStopRestitution: number; // coefficient of restitution at the track ends (e, free slide only)
+}
+
+// Door properties that each door sets itself or links to the first door's value
+export type DoorPropertyKey = 'doorMass' | 'doorWidth' | 'initialAngularVelocity';
+
+// One rotating door in the comparison
+export interface DoorConfig {
+  name: string;
+  doorMass: number; // kg (M_d)
+  doorWidth: number; // meters (W)
   initialAngularVelocity: number; // rad/s (ω_1)
+  links: Record<DoorPropertyKey, boolean>; // true: use the first door's value (ignored on the first door)
+  slidingMasses: SlidingMassParams[]; // empty for a standard door
+  torques: TorqueModel[]; // external torques about the hinge (dL/dt = Στ)
+}
+
+export interface SimulationParams {
+  // Door stop at MAX_DOOR_ANGLE (all doors)
+  doorStopRestitution: number; // coefficient of restitution of the stop (e)
+
+  // Doors compared side by side
+  doors: DoorConfig[];
+}
+
+export interface SlidingMassState {
+  radius: number; // current position of sliding mass, m
+  radialVelocity: number; // ṙ, m/s
+}
+
+export interface DoorState {
+  angle: number; // radians
+  angularVelocity: number; // rad/s
+  momentOfInertia: number; // kg⋅m²
+  angularMomentum: number; // kg⋅m²/s
+  masses: SlidingMassState[];
+  torques: TorqueBreakdown; // N⋅m
+  energy: EnergyLedger; // J
+  stopImpulse: number; // cumulative angular impulse from the door stop, kg⋅m²/s
+  stopImpacts: number; // number of impacts with the door stop
 }
 
 export interface SimulationState {
   time: number;
   isRunning: boolean;
   phase: 'idle' | 'phase1' | 'phase2';
-  
-  // Door A (sliding mass)
-  doorA: {
-    angle: number; // radians
-    angularVelocity: number; // rad/s
-    momentOfInertia: number; // kg⋅m²
-    angularMomentum: number; // kg⋅m²/s
-    massRadius: number; // current position of sliding mass
-  };
-  
-  // Door B (standard)
-  doorB: {
-    angle: number;
-    angularVelocity: number;
-    momentOfInertia: number;
-    angularMomentum: number;
-  };
+  doors: DoorState[];
+}
+
+// Graphed quantities of one door at one instant
+export interface DoorDataPoint {
+  theta: number;
+  omega: number;
+  I: number;
+  L: number;
+  torque: number;
+  KE: number;
+  work: number;
+  loss: number;
+  balance: number;
+  impulse: number;
+  radii: number[]; // m, one per sliding mass
 }
 
 export interface DataPoint {
   time: number;
-  doorA_omega: number;
-  doorB_omega: number;
-  doorA_I: number;
-  doorB_I: number;
-  doorA_L: number;
-  doorB_L: number;
+  doors: DoorDataPoint[];
+}
+
+// Sample the graphed quantities from a simulation state
+export function createDataPoint(state: SimulationState): DataPoint {
+  return {
+    time: state.time,
+    doors: state.doors.map((door) => ({
+      theta: door.angle,
+      omega: door.angularVelocity,
+      I: door.momentOfInertia,
+      L: door.angularMomentum,
+      torque: door.torques.net,
+      KE: totalKineticEnergy(door.energy),
+      work: totalWork(door.energy),
+      loss: totalDissipation(door.energy),
+      balance: door.energy.balance,
+      impulse: door.stopImpulse,
+      radii: door.masses.map((mass) => mass.radius),
+    })),
+  };
 }
 
 // Calculate moment of inertia for a door (thin rod about end)
@@ -53,7 +120,7 @@ export function calculateDoorMomentOfInertia(mass: number, width: number): numbe
   return (1 / 3) * mass * width * width;
 }
 
-// Calculate total moment of inertia for Door A (door + point mass)
+// Calculate total moment of inertia for a door carrying a point mass
 // I_total = I_d + m * r²
 export function calculateTotalMomentOfInertia(
   doorMomentOfInertia: number,
@@ -85,122 +152,456 @@ export function interpolateRadius(
   return initialRadius + (finalRadius - initialRadius) * Math.min(1, Math.max(0, eased));
 }
 
-// Default simulation parameters
+// Radial velocity of the prescribed slide (time derivative of interpolateRadius)
+export function interpolateRadialVelocity(
+  initialRadius: number,
+  finalRadius: number,
+  progress: number, // 0 to 1
+  slideDuration: number
+): number {
+  if (progress <= 0 || progress >= 1) return 0;
+  const easedRate = progress < 0.5 ? 4 * progress : 4 * (1 - progress);
+  return (finalRadius - initialRadius) * easedRate / slideDuration;
+}
+
+// Radial acceleration of the prescribed slide (second derivative of interpolateRadius)
+export function interpolateRadialAcceleration(
+  initialRadius: number,
+  finalRadius: number,
+  progress: number, // 0 to 1
+  slideDuration: number
+): number {
+  if (progress <= 0 || progress >= 1) return 0;
+  const easedAcceleration = progress < 0.5 ? 4 : -4;
+  return (finalRadius - initialRadius) * easedAcceleration / (slideDuration * slideDuration);
+}
+
+// Radial acceleration of a free sliding mass on a rotating track
+// r̈ = rω² − μg·sign(ṙ); at rest, static friction holds the mass until rω² exceeds μg
+export function calculateRadialAcceleration(
+  radius: number,
+  radialVelocity: number,
+  angularVelocity: number,
+  trackFriction: number
+): number {
+  const centrifugal = radius * angularVelocity * angularVelocity;
+  const friction = trackFriction * GRAVITY;
+  if (Math.abs(radialVelocity) > REST_VELOCITY) {
+    return centrifugal - friction * Math.sign(radialVelocity);
+  }
+  return Math.max(0, centrifugal - friction);
+}
+
+// Default sliding mass
 // CRITICAL: initialRadius must be much smaller than finalRadius
-// This ensures Door A (sliding mass) closes SLOWER than Door B
-// because I_A increases as mass slides outward, causing ω_A to decrease
-export const defaultParams: SimulationParams = {
-  doorMass: 25, // kg
-  doorWidth: 1.0, // meters
-  slidingMass: 12, // kg (significant mass for visible effect)
+// This ensures a door with a sliding mass closes SLOWER than a standard door
+// because I increases as mass slides outward, causing ω to decrease
+export const defaultSlidingMass: SlidingMassParams = {
+  mass: 12, // kg (significant mass for visible effect)
   initialRadius: 0.05, // meters (r_1 - mass starts VERY NEAR hinge)
   finalRadius: 0.95, // meters (r_2 - mass ends FAR from hinge)
   slideDuration: 0.3, // seconds (mass slides out quickly at start)
-  initialAngularVelocity: 1.5, // rad/s (same for both doors)
+  slideMode: 'prescribed',
+  trackFriction: 0.05, // low-friction ball-bearing track
+  endStopRestitution: 0.3, // rubber end stop
+};
+
+// Name doors A, B, C, ... in the order they are added
+export function doorName(index: number): string {
+  return `Door ${String.fromCharCode(65 + index)}`;
+}
+
+export const doorPropertyKeys: DoorPropertyKey[] = ['doorMass', 'doorWidth', 'initialAngularVelocity'];
+
+// A new door, optionally carrying one default sliding mass
+// Doors after the first start linked to it, so they differ only in what they carry
+export function createDoorConfig(index: number, withSlidingMass: boolean): DoorConfig {
+  return {
+    name: doorName(index),
+    doorMass: 25, // kg
+    doorWidth: 1.0, // meters
+    initialAngularVelocity: 1.5, // rad/s
+    links: { doorMass: index > 0, doorWidth: index > 0, initialAngularVelocity: index > 0 },
+    slidingMasses: withSlidingMass ? [{ ...defaultSlidingMass }] : [],
+    torques: createDefaultTorqueModels(), // all disabled: torque-free rotation
+  };
+}
+
+// Default simulation parameters: Door A (sliding mass) against Door B (standard)
+export const defaultParams: SimulationParams = {
+  doorStopRestitution: 0.2, // rubber-bumpered door stop
+  doors: [createDoorConfig(0, true), createDoorConfig(1, false)],
 };
 
+// Standard gravity (m/s²) for track friction
+export const GRAVITY = 9.81;
+
+// Radial speed below which the sliding mass is treated as at rest (m/s)
+const REST_VELOCITY = 1e-4;
+
+// Rebound speed below which a door comes to rest against the stop (rad/s)
+const REBOUND_REST_VELOCITY = 1e-3;
+
 // Maximum angle for door close (90 degrees = π/2)
 export const MAX_DOOR_ANGLE = Math.PI / 2;
 
-// Initialize simulation state
-export function initializeState(params: SimulationParams): SimulationState {
-  const doorMomentOfInertia = calculateDoorMomentOfInertia(params.doorMass, params.doorWidth);
-  const initialTotalMomentOfInertia = calculateTotalMomentOfInertia(
-    doorMomentOfInertia,
-    params.slidingMass,
-    params.initialRadius
+// Effective value of a door property, following its link to the first door
+export function doorProperty(params: SimulationParams, index: number, key: DoorPropertyKey): number {
+  const door = params.doors[index];
+  return index > 0 && door.links[key] ? params.doors[0][key] : door[key];
+}
+
+// Every door with its linked properties replaced by the first door's values
+export function resolveDoors(params: SimulationParams): DoorConfig[] {
+  return params.doors.map((door, i) => ({
+    ...door,
+    doorMass: doorProperty(params, i, 'doorMass'),
+    doorWidth: doorProperty(params, i, 'doorWidth'),
+    initialAngularVelocity: doorProperty(params, i, 'initialAngularVelocity'),
+  }));
+}
+
+// Total moment of inertia of a door and all of its sliding masses
+function doorMomentOfInertiaWithMasses(
+  doorMomentOfInertia: number,
+  slidingMasses: SlidingMassParams[],
+  radii: number[]
+): number {
+  return slidingMasses.reduce(
+    (total, slidingMass, k) => calculateTotalMomentOfInertia(total, slidingMass.mass, radii[k]),
+    doorMomentOfInertia
   );
-  const angularMomentum = initialTotalMomentOfInertia * params.initialAngularVelocity;
+}
 
+// Initialize simulation state
+export function initializeState(params: SimulationParams): SimulationState {
   return {
     time: 0,
     isRunning: false,
     phase: 'idle',
-    doorA: {
-      angle: 0,
-      angularVelocity: params.initialAngularVelocity,
-      momentOfInertia: initialTotalMomentOfInertia,
-      angularMomentum: angularMomentum,
-      massRadius: params.initialRadius,
-    },
-    doorB: {
-      angle: 0,
-      angularVelocity: params.initialAngularVelocity,
-      momentOfInertia: doorMomentOfInertia,
-      angularMomentum: doorMomentOfInertia * params.initialAngularVelocity,
+    doors: resolveDoors(params).map((door) => {
+      const momentOfInertia = doorMomentOfInertiaWithMasses(
+        calculateDoorMomentOfInertia(door.doorMass, door.doorWidth),
+        door.slidingMasses,
+        door.slidingMasses.map((slidingMass) => slidingMass.initialRadius)
+      );
+      return {
+        angle: 0,
+        angularVelocity: door.initialAngularVelocity,
+        momentOfInertia,
+        angularMomentum: momentOfInertia * door.initialAngularVelocity,
+        masses: door.slidingMasses.map((slidingMass) => ({
+          radius: slidingMass.initialRadius,
+          radialVelocity: 0,
+        })),
+        torques: calculateTorques(door.torques, 0, door.initialAngularVelocity),
+        energy: createEnergyLedger(
+          calculateRotationalKineticEnergy(momentOfInertia, door.initialAngularVelocity),
+          0
+        ),
+        stopImpulse: 0,
+        stopImpacts: 0,
+      };
+    }),
+  };
+}
+
+// Prescribed sliding mass position, radial velocity and acceleration at simulation time t
+function prescribedSlideAt(
+  slidingMass: SlidingMassParams,
+  t: number
+): { radius: number; radialVelocity: number; radialAcceleration: number } {
+  const slideProgress = Math.min(1, t / slidingMass.slideDuration);
+  return {
+    radius: interpolateRadius(slidingMass.initialRadius, slidingMass.finalRadius, slideProgress),
+    radialVelocity: interpolateRadialVelocity(
+      slidingMass.initialRadius,
+      slidingMass.finalRadius,
+      slideProgress,
+      slidingMass.slideDuration
+    ),
+    radialAcceleration: interpolateRadialAcceleration(
+      slidingMass.initialRadius,
+      slidingMass.finalRadius,
+      slideProgress,
+      slidingMass.slideDuration
+    ),
+  };
+}
+
+// A door is held by the stop while it is at MAX_DOOR_ANGLE and not moving or torqued away from it
+function isAgainstDoorStop(angle: number, angularMomentum: number, netTorque: number): boolean {
+  return angle >= MAX_DOOR_ANGLE && angularMomentum >= 0 && netTorque >= 0;
+}
+
+// Layout of one door's block in the state vector:
+// [θ, L, W_c, W_s, E_f, J, r_1, ṙ_1, r_2, ṙ_2, ...]
+const DOOR_BLOCK_SIZE = 6;
+
+function doorBlockSize(door: DoorConfig): number {
+  return DOOR_BLOCK_SIZE + 2 * door.slidingMasses.length;
+}
+
+// Pack every door's integrated quantities into one state vector
+function packState(doors: DoorState[]): number[] {
+  return doors.flatMap((door) => [
+    door.angle,
+    door.angularMomentum,
+    door.energy.constraintWork,
+    door.energy.springWork,
+    door.energy.frictionLoss,
+    door.stopImpulse,
+    ...door.masses.flatMap((mass) => [mass.radius, mass.radialVelocity]),
+  ]);
+}
+
+// Equations of motion for all doors as one first-order system, one block per door
+// dθ/dt = L / I,  dL/dt = Στ,  dr/dt = ṙ,  dṙ/dt = rω² − μg (free slide only)
+// The energy ledger terms are integrated alongside: constraint power F_r⋅ṙ,
+// spring power τ_spring⋅ω and dissipated power (hinge damping/friction and track friction).
+// While a door is held by its stop, the stop's reaction −Στ accumulates into its impulse J.
+// held[i] is fixed for the whole step: a door reaching the stop mid-step keeps swinging
+// until resolveDoorStop treats it as an impact at the end of the step.
+function createDoorSystem(doors: DoorConfig[], held: boolean[]): OdeSystem {
+  const momentumIndices: number[] = [];
+  let offset = 0;
+  for (const door of doors) {
+    momentumIndices.push(offset + 1);
+    door.slidingMasses.forEach((_, k) => momentumIndices.push(offset + DOOR_BLOCK_SIZE + 2 * k + 1));
+    offset += doorBlockSize(door);
+  }
+
+  return {
+    derivative: (t, y) => {
+      const rates: number[] = [];
+      let start = 0;
+
+      doors.forEach((door, i) => {
+        const [angle, momentum] = y.slice(start, start + 2);
+        const masses = door.slidingMasses.map((slidingMass, k) => {
+          const index = start + DOOR_BLOCK_SIZE + 2 * k;
+          return { slidingMass, radius: y[index], radialVelocity: y[index + 1], prescribed: prescribedSlideAt(slidingMass, t) };
+        });
+        const momentOfInertia = doorMomentOfInertiaWithMasses(
+          calculateDoorMomentOfInertia(door.doorMass, door.doorWidth),
+          door.slidingMasses,
+          masses.map((mass) => mass.slidingMass.slideMode === 'free' ? mass.radius : mass.prescribed.radius)
+        );
+
+        const angularVelocity = held[i] ? 0 : momentum / momentOfInertia;
+        const torques = calculateTorques(door.torques, angle, angularVelocity);
+
+        let constraintPower = 0;
+        let trackFrictionPower = 0;
+        const massRates = masses.flatMap(({ slidingMass, radius, radialVelocity, prescribed }) => {
+          if (slidingMass.slideMode !== 'free') {
+            constraintPower += calculateConstraintForce(
+              slidingMass.mass,
+              prescribed.radius,
+              prescribed.radialAcceleration,
+              angularVelocity
+            ) * prescribed.radialVelocity;
+            return [0, 0];
+          }
+
+          // Mass pressed against the outer end stop stays there
+          if (radius >= slidingMass.finalRadius && radialVelocity >= 0) return [0, 0];
+
+          if (Math.abs(radialVelocity) > REST_VELOCITY) {
+            trackFrictionPower += slidingMass.trackFriction * GRAVITY * slidingMass.mass * Math.abs(radialVelocity);
+          }
+          return [
+            radialVelocity,
+            calculateRadialAcceleration(radius, radialVelocity, angularVelocity, slidingMass.trackFriction),
+          ];
+        });
+
+        rates.push(
+          angularVelocity,
+          held[i] ? 0 : torques.net,
+          constraintPower,
+          (torques.net - torques.dissipative) * angularVelocity,
+          trackFrictionPower - torques.dissipative * angularVelocity,
+          held[i] ? -torques.net : 0,
+          ...massRates
+        );
+        start += doorBlockSize(door);
+      });
+
+      return rates;
     },
+    momentumIndices,
   };
 }
 
-// Update simulation state for one time step
+// Resolve sliding mass contact with the track end stops at r_1 and r_2
+// The bounce reverses ṙ scaled by the restitution; slow bounces come to rest against the stop
+function resolveEndStops(
+  radius: number,
+  radialVelocity: number,
+  slidingMass: SlidingMassParams
+): { radius: number; radialVelocity: number } {
+  if (radius >= slidingMass.finalRadius && radialVelocity > 0) {
+    const rebound = -slidingMass.endStopRestitution * radialVelocity;
+    return { radius: slidingMass.finalRadius, radialVelocity: Math.abs(rebound) < REST_VELOCITY ? 0 : rebound };
+  }
+  if (radius <= slidingMass.initialRadius && radialVelocity < 0) {
+    const rebound = -slidingMass.endStopRestitution * radialVelocity;
+    return { radius: slidingMass.initialRadius, radialVelocity: Math.abs(rebound) < REST_VELOCITY ? 0 : rebound };
+  }
+  return { radius, radialVelocity };
+}
+
+// Resolve a door reaching the stop at MAX_DOOR_ANGLE
+// The impact reverses ω scaled by the restitution (ω' = −eω); the stop delivers the
+// angular impulse J = I(ω' − ω) and the kinetic energy ½I(ω² − ω'²) is lost
+export function resolveDoorStop(
+  angle: number,
+  angularMomentum: number,
+  momentOfInertia: number,
+  restitution: number
+): { angle: number; angularMomentum: number; impulse: number; energyLoss: number; impact: boolean } {
+  if (angle < MAX_DOOR_ANGLE) {
+    return { angle, angularMomentum, impulse: 0, energyLoss: 0, impact: false };
+  }
+  if (angularMomentum <= 0) {
+    return { angle: MAX_DOOR_ANGLE, angularMomentum, impulse: 0, energyLoss: 0, impact: false };
+  }
+
+  const angularVelocity = calculateAngularVelocity(angularMomentum, momentOfInertia);
+  const rebound = -restitution * angularVelocity;
+  const reboundVelocity = Math.abs(rebound) < REBOUND_REST_VELOCITY ? 0 : rebound;
+  const reboundMomentum = momentOfInertia * reboundVelocity;
+
+  return {
+    angle: MAX_DOOR_ANGLE,
+    angularMomentum: reboundMomentum,
+    impulse: reboundMomentum - angularMomentum,
+    energyLoss: calculateRotationalKineticEnergy(momentOfInertia, angularVelocity)
+      - calculateRotationalKineticEnergy(momentOfInertia, reboundVelocity),
+    impact: true,
+  };
+}
+
+// A door has finished its motion once it rests against the stop, or once it has
+// bounced off the stop and is swinging away with no hinge torque to bring it back
+export function isDoorSettled(
+  door: { angle: number; angularVelocity: number; torques: TorqueBreakdown; stopImpacts: number },
+  torqueModels: TorqueModel[]
+): boolean {
+  const resting = door.angle >= MAX_DOOR_ANGLE && door.angularVelocity === 0 && door.torques.net >= 0;
+  const leaving = door.stopImpacts > 0
+    && door.angularVelocity <= 0
+    && !torqueModels.some((model) => model.enabled);
+  return resting || leaving;
+}
+
+function areAllDoorsSettled(doors: DoorState[], params: SimulationParams): boolean {
+  return doors.every((door, i) => isDoorSettled(door, params.doors[i].torques));
+}
+
+// Slide-acceleration jumps (midpoint and end of every prescribed slide)
+function slideBreakpoints(params: SimulationParams): number[] {
+  return params.doors.flatMap((door) =>
+    door.slidingMasses
+      .filter((slidingMass) => slidingMass.slideMode !== 'free')
+      .flatMap((slidingMass) => [slidingMass.slideDuration / 2, slidingMass.slideDuration])
+  );
+}
+
+// Update simulation state for one fixed time step
 export function updateState(
   state: SimulationState,
   params: SimulationParams,
-  deltaTime: number
+  deltaTime: number,
+  settings: IntegratorSettings = defaultIntegratorSettings
 ): SimulationState {
   if (!state.isRunning) return state;
 
-  // Check if both doors have reached max angle - stop simulation
-  if (state.doorA.angle >= MAX_DOOR_ANGLE && state.doorB.angle >= MAX_DOOR_ANGLE) {
+  // Check if every door has finished moving - stop simulation
+  if (areAllDoorsSettled(state.doors, params)) {
     return {
       ...state,
       isRunning: false,
       phase: 'phase2',
-      doorA: { ...state.doorA, angularVelocity: 0 },
-      doorB: { ...state.doorB, angularVelocity: 0 },
     };
   }
 
   const newTime = state.time + deltaTime;
-  const doorMomentOfInertia = calculateDoorMomentOfInertia(params.doorMass, params.doorWidth);
+  const configs = resolveDoors(params);
 
-  // Calculate sliding mass position based on time
-  const slideProgress = Math.min(1, newTime / params.slideDuration);
-  const newMassRadius = interpolateRadius(params.initialRadius, params.finalRadius, slideProgress);
+  // Torques at rest decide whether a door at the stop is held there
+  const held = configs.map((config, i) => {
+    const door = state.doors[i];
+    return isAgainstDoorStop(door.angle, door.angularMomentum, calculateTorques(config.torques, door.angle, 0).net);
+  });
 
-  // Door A: Update with sliding mass
-  const newMomentOfInertiaA = calculateTotalMomentOfInertia(
-    doorMomentOfInertia,
-    params.slidingMass,
-    newMassRadius
+  const y = integrateWithBreakpoints(
+    createDoorSystem(configs, held),
+    state.time,
+    packState(state.doors),
+    deltaTime,
+    settings,
+    slideBreakpoints(params)
   );
-  
-  let newAngularVelocityA = state.doorA.angle >= MAX_DOOR_ANGLE 
-    ? 0 
-    : calculateAngularVelocity(state.doorA.angularMomentum, newMomentOfInertiaA);
-  
-  let newAngleA = state.doorA.angle >= MAX_DOOR_ANGLE
-    ? MAX_DOOR_ANGLE
-    : Math.min(MAX_DOOR_ANGLE, state.doorA.angle + newAngularVelocityA * deltaTime);
-
-  // Door B: Constant rotation (no sliding mass) until max angle
-  let newAngularVelocityB = state.doorB.angle >= MAX_DOOR_ANGLE ? 0 : state.doorB.angularVelocity;
-  let newAngleB = state.doorB.angle >= MAX_DOOR_ANGLE
-    ? MAX_DOOR_ANGLE
-    : Math.min(MAX_DOOR_ANGLE, state.doorB.angle + newAngularVelocityB * deltaTime);
+
+  let start = 0;
+  const doors = configs.map((config, i): DoorState => {
+    const previous = state.doors[i];
+    const [angle, momentum, constraintWork, springWork, frictionLoss, heldImpulse] = y.slice(start, start + DOOR_BLOCK_SIZE);
+
+    // Sliding mass positions: prescribed by time, or integrated and bounded by the end stops
+    let endStopLoss = 0;
+    const masses = config.slidingMasses.map((slidingMass, k) => {
+      const index = start + DOOR_BLOCK_SIZE + 2 * k;
+      if (slidingMass.slideMode !== 'free') return prescribedSlideAt(slidingMass, newTime);
+
+      const slide = resolveEndStops(y[index], y[index + 1], slidingMass);
+      // Kinetic energy lost in the sliding mass's end-stop bounce
+      endStopLoss += calculateRadialKineticEnergy(slidingMass.mass, y[index + 1])
+        - calculateRadialKineticEnergy(slidingMass.mass, slide.radialVelocity);
+      return slide;
+    });
+    start += doorBlockSize(config);
+
+    const momentOfInertia = doorMomentOfInertiaWithMasses(
+      calculateDoorMomentOfInertia(config.doorMass, config.doorWidth),
+      config.slidingMasses,
+      masses.map((mass) => mass.radius)
+    );
+    const stop = resolveDoorStop(angle, momentum, momentOfInertia, params.doorStopRestitution);
+    const angularVelocity = calculateAngularVelocity(stop.angularMomentum, momentOfInertia);
+
+    return {
+      angle: stop.angle,
+      angularVelocity,
+      momentOfInertia,
+      angularMomentum: stop.angularMomentum,
+      masses: masses.map(({ radius, radialVelocity }) => ({ radius, radialVelocity })),
+      torques: calculateTorques(config.torques, stop.angle, angularVelocity),
+      energy: updateEnergyLedger(previous.energy, {
+        rotational: calculateRotationalKineticEnergy(momentOfInertia, angularVelocity),
+        radial: config.slidingMasses.reduce(
+          (total, slidingMass, k) => total + calculateRadialKineticEnergy(slidingMass.mass, masses[k].radialVelocity),
+          0
+        ),
+        constraintWork,
+        springWork,
+        frictionLoss,
+        stopLoss: previous.energy.stopLoss + endStopLoss + stop.energyLoss,
+      }),
+      stopImpulse: heldImpulse + stop.impulse,
+      stopImpacts: previous.stopImpacts + (stop.impact ? 1 : 0),
+    };
+  });
 
   // Determine phase
-  let phase: 'idle' | 'phase1' | 'phase2' = 'phase1';
-  if (newAngleA >= MAX_DOOR_ANGLE && newAngleB >= MAX_DOOR_ANGLE) {
-    phase = 'phase2';
-  }
+  const phase: 'idle' | 'phase1' | 'phase2' = areAllDoorsSettled(doors, params) ? 'phase2' : 'phase1';
 
   return {
     ...state,
     time: newTime,
     phase,
-    doorA: {
-      angle: newAngleA,
-      angularVelocity: newAngularVelocityA,
-      momentOfInertia: newMomentOfInertiaA,
-      angularMomentum: state.doorA.angularMomentum,
-      massRadius: newMassRadius,
-    },
-    doorB: {
-      angle: newAngleB,
-      angularVelocity: newAngularVelocityB,
-      momentOfInertia: state.doorB.momentOfInertia,
-      angularMomentum: state.doorB.angularMomentum,
-    },
+    doors,
   };
 }
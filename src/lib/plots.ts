@@ -0,0 +1,105 @@
+import { DataPoint, DoorConfig } from './physics';
+import { RecordedQuantity } from './recording';
+
+// User-built plots of any graphed quantity against any other, e.g. the phase portrait
+// ω vs θ or L vs r
+export interface CustomPlot {
+  id: number;
+  x: string; // PlotQuantity id
+  y: string;
+}
+
+// A quantity that can go on either axis of a custom plot
+export interface PlotQuantity {
+  id: string;
+  label: string;
+  unit: string;
+  get: (point: DataPoint, door: number, config: DoorConfig) => number | undefined;
+  recorded?: RecordedQuantity; // recorded field it is read from, whose extremes the graph keeps
+}
+
+// A point of one door's curve in a custom plot
+export interface PlotPoint {
+  time: number;
+  x: number;
+  y: number;
+}
+
+const STORAGE_KEY = 'rotating-door.customPlots';
+
+export const defaultCustomPlots: CustomPlot[] = [{ id: 0, x: 'theta', y: 'omega' }];
+
+// Quantities of the given doors: every recorded field, a radius per sliding mass track
+// and the speed of the door's free edge (v = ωW)
+export function plotQuantities(doors: DoorConfig[]): PlotQuantity[] {
+  const trackCount = Math.max(0, ...doors.map((door) => door.slidingMasses.length));
+  return [
+    { id: 'time', label: 't', unit: 's', get: (point) => point.time },
+    { id: 'theta', label: 'θ', unit: 'rad', get: (point, i) => point.doors[i]?.theta, recorded: 'theta' },
+    { id: 'omega', label: 'ω', unit: 'rad/s', get: (point, i) => point.doors[i]?.omega, recorded: 'omega' },
+    { id: 'I', label: 'I', unit: 'kg⋅m²', get: (point, i) => point.doors[i]?.I, recorded: 'I' },
+    { id: 'L', label: 'L', unit: 'kg⋅m²/s', get: (point, i) => point.doors[i]?.L, recorded: 'L' },
+    ...Array.from({ length: trackCount }, (_, k): PlotQuantity => ({
+      id: `r${k + 1}`,
+      label: trackCount > 1 ? `r${k + 1}` : 'r',
+      unit: 'm',
+      get: (point, i) => point.doors[i]?.radii[k],
+      recorded: 'radii',
+    })),
+    { id: 'KE', label: 'KE', unit: 'J', get: (point, i) => point.doors[i]?.KE, recorded: 'KE' },
+    { id: 'torque', label: 'τ', unit: 'N⋅m', get: (point, i) => point.doors[i]?.torque, recorded: 'torque' },
+    {
+      id: 'edgeSpeed',
+      label: 'v_edge',
+      unit: 'm/s',
+      get: (point, i, config) => {
+        const omega = point.doors[i]?.omega;
+        return omega === undefined ? undefined : omega * config.doorWidth;
+      },
+      recorded: 'omega',
+    },
+  ];
+}
+
+export function plotQuantityTitle(quantity: PlotQuantity): string {
+  return `${quantity.label} (${quantity.unit})`;
+}
+
+// One door's curve, in recording order; samples where either quantity is missing
+// (e.g. a door without that track) are left out
+export function plotPoints(
+  data: DataPoint[],
+  x: PlotQuantity,
+  y: PlotQuantity,
+  door: number,
+  config: DoorConfig
+): PlotPoint[] {
+  return data.flatMap((point) => {
+    const xValue = x.get(point, door, config);
+    const yValue = y.get(point, door, config);
+    return xValue !== undefined && yValue !== undefined && Number.isFinite(xValue) && Number.isFinite(yValue)
+      ? [{ time: point.time, x: xValue, y: yValue }]
+      : [];
+  });
+}
+
+// Plot layouts persist across reloads of the page
+export function loadCustomPlots(): CustomPlot[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return Array.isArray(saved)
+      ? saved.filter((plot): plot is CustomPlot =>
+        typeof plot?.id === 'number' && typeof plot.x === 'string' && typeof plot.y === 'string')
+      : defaultCustomPlots;
+  } catch {
+    return defaultCustomPlots;
+  }
+}
+
+export function saveCustomPlots(plots: CustomPlot[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(plots));
+  } catch {
+    // Storage full or disabled: layouts last until the page is closed
+  }
+}
@@ -0,0 +1,133 @@
+import { DataPoint, DoorDataPoint } from './physics';
+import { recordedIndexAt } from './replay';
+
+// The graphed samples of a whole run, one per fixed step, with a level-of-detail pyramid
+// so the graphs draw a bounded number of points however long the run gets.
+// Level l splits the samples into blocks of LEVEL_BLOCK·2^l and keeps, from each block and
+// for each recorded quantity separately, the samples where that quantity of a door is
+// smallest or largest (min/max decimation), so peaks and impacts survive at every zoom
+// level and a graph only draws the extremes of the quantities it shows.
+export interface DataRecording {
+  samples: DataPoint[];
+  levels: Record<RecordedQuantity, number[][]>; // kept sample indices of each level, in time order
+}
+
+// Door quantities of a sample that can be graphed against time
+export type RecordedQuantity = keyof DoorDataPoint;
+
+const recordedQuantities: RecordedQuantity[] = [
+  'theta', 'omega', 'I', 'L', 'torque', 'KE', 'work', 'loss', 'balance', 'impulse', 'radii',
+];
+
+// Start and end of the graphed time window, s
+export type TimeRange = [number, number];
+
+// Samples per block of level 0
+const LEVEL_BLOCK = 8;
+
+// Points per graph: about twice this many are drawn (a minimum and a maximum per block)
+export const GRAPH_BUCKETS = 250;
+
+const blockSize = (level: number) => LEVEL_BLOCK * 2 ** level;
+
+// Values of one quantity of every door of a sample, one per line drawn (a radius per track)
+function quantityValues(sample: DataPoint, quantity: RecordedQuantity): number[] {
+  return sample.doors.flatMap((door) => door[quantity]);
+}
+
+// Indices of the minimum and maximum of each door's line of a quantity
+function keepExtremes(samples: DataPoint[], candidates: number[], quantity: RecordedQuantity): number[] {
+  const kept = new Set<number>();
+  const values = candidates.map((index) => quantityValues(samples[index], quantity));
+
+  values[0].forEach((_, s) => {
+    let min = 0;
+    let max = 0;
+    values.forEach((row, k) => {
+      if (row[s] < values[min][s]) min = k;
+      if (row[s] > values[max][s]) max = k;
+    });
+    kept.add(candidates[min]);
+    kept.add(candidates[max]);
+  });
+
+  return [...kept].sort((a, b) => a - b);
+}
+
+// First position in a sorted index list at or after the given sample index
+function lowerBound(indices: number[], index: number): number {
+  let low = 0;
+  let high = indices.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (indices[mid] < index) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+export function createDataRecording(first: DataPoint): DataRecording {
+  const levels = Object.fromEntries(recordedQuantities.map((quantity) => [quantity, []]));
+  return { samples: [first], levels: levels as Record<RecordedQuantity, number[][]> };
+}
+
+// Add the next sample, completing the blocks of every level that end with it
+export function appendSample(recording: DataRecording, sample: DataPoint): void {
+  const { samples, levels } = recording;
+  samples.push(sample);
+  const count = samples.length;
+
+  for (let level = 0; count % blockSize(level) === 0; level++) {
+    const start = count - blockSize(level);
+    recordedQuantities.forEach((quantity) => {
+      const quantityLevels = levels[quantity];
+      // Level 0 decimates raw samples; higher levels merge the two blocks below them
+      const candidates = level === 0
+        ? Array.from({ length: blockSize(0) }, (_, k) => start + k)
+        : quantityLevels[level - 1].slice(lowerBound(quantityLevels[level - 1], start));
+      if (!quantityLevels[level]) quantityLevels[level] = [];
+      quantityLevels[level].push(...keepExtremes(samples, candidates, quantity));
+    });
+  }
+}
+
+// Samples to draw of the given quantities between two times, from the first sampleCount
+// samples of the recording: the finest level whose blocks in range, times the lines drawn,
+// stay within `buckets`, then finer levels and raw samples for the run's end, which no
+// complete block of the coarser levels covers yet
+export function recordingView(
+  recording: DataRecording,
+  quantities: RecordedQuantity[],
+  sampleCount = recording.samples.length,
+  startTime = -Infinity,
+  endTime = Infinity,
+  buckets = GRAPH_BUCKETS
+): DataPoint[] {
+  const { samples, levels } = recording;
+  // One sample past each end of the range, so lines reach the edges of a zoomed graph
+  const first = Math.min(sampleCount - 1, recordedIndexAt(samples, startTime));
+  const last = Math.min(sampleCount - 1, recordedIndexAt(samples, endTime) + 1);
+  const count = last - first + 1;
+  if (count <= 2 * buckets) return samples.slice(first, last + 1);
+
+  // Each line keeps up to two samples per block
+  const lines = quantities.reduce((sum, quantity) => sum + quantityValues(samples[last], quantity).length, 0);
+  const blocks = buckets / Math.max(1, lines);
+  const depth = levels.theta.length;
+  let level = 0;
+  while (level < depth - 1 && count / blockSize(level) > blocks) level++;
+
+  const indices = new Set([first, last]);
+  quantities.forEach((quantity) => {
+    let next = first + 1;
+    for (let l = level; l >= 0; l--) {
+      const covered = Math.min(last, Math.floor(sampleCount / blockSize(l)) * blockSize(l) - 1);
+      const kept = levels[quantity][l] ?? [];
+      for (let k = lowerBound(kept, next); k < kept.length && kept[k] <= covered; k++) indices.add(kept[k]);
+      next = Math.max(next, covered + 1);
+    }
+    for (let index = next; index < last; index++) indices.add(index);
+  });
+
+  return [...indices].sort((a, b) => a - b).map((index) => samples[index]);
+}
@@ -0,0 +1,78 @@
+import { SimulationState } from './physics';
+
+// Playback of a recorded run: the scene and graphs show recorded states instead of
+// states produced by updateState
+export interface ReplayState {
+  time: number; // s of simulated time being shown
+  playing: boolean;
+  speed: number; // simulated seconds per wall-clock second
+  direction: 1 | -1; // −1 plays backwards
+}
+
+export const replaySpeeds = [0.1, 0.25, 0.5, 1, 2, 4];
+
+// Full states of a run kept for replay and export: every fixed step until MAX_REPLAY_STATES
+// are held, then every second one of those and every second step from then on, and so on,
+// so a long run holds a bounded number of evenly spaced states. The latest state is always
+// the last one, so replay reaches the end of the run.
+export interface ReplayRecording {
+  states: SimulationState[]; // in time order
+  stride: number; // steps between kept states
+  sinceKept: number; // steps since the last kept state
+}
+
+const MAX_REPLAY_STATES = 20000;
+
+export function createReplayRecording(first: SimulationState): ReplayRecording {
+  return { states: [first], stride: 1, sinceKept: 0 };
+}
+
+export function recordState(recording: ReplayRecording, state: SimulationState): void {
+  const { states } = recording;
+  // The previous state stands in as the latest until the stride is complete
+  if (recording.sinceKept > 0) states.pop();
+  recording.sinceKept = (recording.sinceKept + 1) % recording.stride;
+  states.push(state);
+
+  if (recording.sinceKept === 0 && states.length > MAX_REPLAY_STATES) {
+    // Keep the first state and every second one counted back from the latest
+    const last = states.length - 1;
+    recording.states = states.filter((_, k) => k === 0 || (last - k) % 2 === 0);
+    recording.stride *= 2;
+  }
+}
+
+export function createReplay(time: number): ReplayState {
+  return { time, playing: false, speed: 1, direction: 1 };
+}
+
+// Index of the last recorded state (or sample) at or before the given time (binary
+// search; the recording is in time order)
+export function recordedIndexAt(recording: { time: number }[], time: number): number {
+  let low = 0;
+  let high = recording.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (recording[mid].time <= time) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+export function recordedStateAt(recording: SimulationState[], time: number): SimulationState {
+  return recording[recordedIndexAt(recording, time)];
+}
+
+// Move playback on by a frame of wall-clock time, stopping at either end of the recording
+export function advanceReplay(replay: ReplayState, frameTime: number, startTime: number, endTime: number): ReplayState {
+  const time = Math.min(endTime, Math.max(startTime, replay.time + frameTime * replay.speed * replay.direction));
+  const finished = replay.direction > 0 ? time >= endTime : time <= startTime;
+  return { ...replay, time, playing: replay.playing && !finished };
+}
+
+// Time of the neighbouring recorded state, for frame-by-frame stepping
+export function stepReplayTime(recording: SimulationState[], time: number, direction: 1 | -1): number {
+  const index = recordedIndexAt(recording, time);
+  const next = Math.min(recording.length - 1, Math.max(0, index + direction));
+  return recording[next].time;
+}
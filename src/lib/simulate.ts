@@ -0,0 +1,263 @@
+import { IntegratorSettings, defaultIntegratorSettings } from './integrators';
+import { SimulationParams, SimulationState, initializeState, isDoorSettled, updateState } from './physics';
+
+// Headless simulation engine shared by the interactive page, scripts and batch tools
+// 'doorClosed': door first reaches the stop at MAX_DOOR_ANGLE
+// 'doorStopImpact': door hits the stop (every impact, including the first)
+// 'slideComplete': a sliding mass first reaches its final radius r_2
+// 'slowRotation': |ω| falls below SLOW_ANGULAR_VELOCITY
+// 'doorSettled': door has finished its motion (see isDoorSettled)
+export type SimulationEventKind = 'doorClosed' | 'doorStopImpact' | 'slideComplete' | 'slowRotation' | 'doorSettled';
+
+export interface SimulationEvent {
+  kind: SimulationEventKind;
+  time: number; // s, located inside the step in which the event occurred
+  door: number; // index into params.doors
+  mass?: number; // index into the door's sliding masses (slideComplete only)
+  state?: SimulationState; // state at the event, just before the stop acts (doorClosed only)
+}
+
+export const eventLabels: Record<SimulationEventKind, string> = {
+  doorClosed: 'Reached 90°',
+  doorStopImpact: 'Stop impact',
+  slideComplete: 'Slide complete',
+  slowRotation: 'ω below threshold',
+  doorSettled: 'Settled',
+};
+
+// Angular speed that counts as slow rotation for 'slowRotation' events (rad/s)
+export const SLOW_ANGULAR_VELOCITY = 0.1;
+
+// Halvings of the step when locating an event (resolves to Δt / 2⁴⁰)
+const EVENT_BISECTIONS = 40;
+
+// 'settled': every door finished its motion
+// 'maxTime': simulated time reached options.maxTime
+// 'condition': options.until returned true
+export type TerminationReason = 'settled' | 'maxTime' | 'condition';
+
+export interface SimulateOptions {
+  integrator?: IntegratorSettings;
+  sampleRate?: number; // samples per second of simulated time (Hz)
+  maxTime?: number; // seconds of simulated time before giving up
+  until?: (state: SimulationState, events: SimulationEvent[]) => boolean; // extra stop condition
+  onStep?: (state: SimulationState, events: SimulationEvent[]) => void; // sees every fixed step
+}
+
+export interface Trajectory {
+  params: SimulationParams;
+  integrator: IntegratorSettings;
+  sampleRate: number; // Hz
+  samples: SimulationState[]; // every state field at t = 0, 1/sampleRate, ... and the final state
+  events: SimulationEvent[];
+  termination: TerminationReason;
+  finalState: SimulationState;
+}
+
+export const defaultSimulateOptions: Required<Omit<SimulateOptions, 'until' | 'onStep'>> = {
+  integrator: defaultIntegratorSettings,
+  sampleRate: 100, // Hz
+  maxTime: 30, // seconds
+};
+
+// Put a state into motion, as the Start button does
+export function startSimulation(state: SimulationState): SimulationState {
+  return { ...state, isRunning: true, phase: 'phase1' };
+}
+
+// Time inside the step from previous to next at which a condition starts to hold, and the
+// last state before it does
+// The step is re-integrated from the previous state over shorter intervals and the
+// condition's switch is bisected, so the time is as accurate as the integrator.
+function locateEvent(
+  previous: SimulationState,
+  next: SimulationState,
+  params: SimulationParams,
+  settings: IntegratorSettings,
+  holds: (state: SimulationState) => boolean
+): { time: number; before: SimulationState } {
+  let low = 0;
+  let high = next.time - previous.time;
+  let before = previous;
+  for (let i = 0; i < EVENT_BISECTIONS; i++) {
+    const mid = 0.5 * (low + high);
+    const state = updateState(previous, params, mid, settings);
+    if (holds(state)) {
+      high = mid;
+    } else {
+      low = mid;
+      before = state;
+    }
+  }
+  return { time: previous.time + high, before };
+}
+
+// Events that occurred between two consecutive states, in time order
+export function detectEvents(
+  previous: SimulationState,
+  next: SimulationState,
+  params: SimulationParams,
+  settings: IntegratorSettings = defaultIntegratorSettings
+): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+  const locate = (holds: (state: SimulationState) => boolean) =>
+    locateEvent(previous, next, params, settings, holds);
+
+  next.doors.forEach((door, i) => {
+    const before = previous.doors[i];
+    const config = params.doors[i];
+    if (!before || !config) return;
+
+    // The stop acts in the step where θ reaches MAX_DOOR_ANGLE
+    if (door.stopImpacts > before.stopImpacts) {
+      const impact = locate((state) => state.doors[i].stopImpacts > before.stopImpacts);
+      const time = impact.time;
+      if (before.stopImpacts === 0) events.push({ kind: 'doorClosed', time, door: i, state: impact.before });
+      events.push({ kind: 'doorStopImpact', time, door: i });
+    }
+
+    door.masses.forEach((mass, k) => {
+      const finalRadius = config.slidingMasses[k].finalRadius;
+      if (before.masses[k].radius < finalRadius && mass.radius >= finalRadius) {
+        const time = locate((state) => state.doors[i].masses[k].radius >= finalRadius).time;
+        events.push({ kind: 'slideComplete', time, door: i, mass: k });
+      }
+    });
+
+    const slow = (angularVelocity: number) => Math.abs(angularVelocity) < SLOW_ANGULAR_VELOCITY;
+    if (!slow(before.angularVelocity) && slow(door.angularVelocity)) {
+      const time = locate((state) => slow(state.doors[i].angularVelocity)).time;
+      events.push({ kind: 'slowRotation', time, door: i });
+    }
+
+    if (!isDoorSettled(before, config.torques) && isDoorSettled(door, config.torques)) {
+      const time = locate((state) => isDoorSettled(state.doors[i], config.torques)).time;
+      events.push({ kind: 'doorSettled', time, door: i });
+    }
+  });
+
+  return events.sort((a, b) => a.time - b.time);
+}
+
+// Advance one fixed step and report the events it produced
+export function stepSimulation(
+  state: SimulationState,
+  params: SimulationParams,
+  settings: IntegratorSettings = defaultIntegratorSettings
+): { state: SimulationState; events: SimulationEvent[] } {
+  const next = updateState(state, params, settings.timeStep, settings);
+  return { state: next, events: detectEvents(state, next, params, settings) };
+}
+
+// Advance the simulation by a frame's worth of wall-clock time using fixed steps,
+// running timeScale simulated seconds per wall-clock second.
+// Leftover time smaller than one step is carried in the accumulator to the next frame,
+// so the trajectory is independent of the display refresh rate.
+// onStep sees every fixed step, for recording at full resolution; wallTime is the part of
+// frameTime that was simulated.
+export function advanceSimulation(
+  state: SimulationState,
+  params: SimulationParams,
+  frameTime: number,
+  timeScale: number,
+  accumulator: number,
+  settings: IntegratorSettings = defaultIntegratorSettings,
+  onStep?: (state: SimulationState, events: SimulationEvent[]) => void
+): { state: SimulationState; accumulator: number; steps: number; events: SimulationEvent[]; wallTime: number } {
+  // Drop wall-clock time beyond the sub-step budget instead of spiralling after a stall;
+  // the cap is on wall time, so faster playback gets proportionally more steps
+  const wallTime = Math.min(frameTime, settings.timeStep * settings.maxSubSteps);
+  let remaining = accumulator + wallTime * timeScale;
+  let current = state;
+  let steps = 0;
+  const events: SimulationEvent[] = [];
+
+  while (remaining >= settings.timeStep && current.isRunning) {
+    const step = stepSimulation(current, params, settings);
+    current = step.state;
+    events.push(...step.events);
+    onStep?.(step.state, step.events);
+    remaining -= settings.timeStep;
+    steps++;
+  }
+
+  return { state: current, accumulator: current.isRunning ? remaining : 0, steps, events, wallTime };
+}
+
+// Fixed steps between the points where a run can pause (see simulationRun)
+const SLICE_STEPS = 500;
+
+// Wall-clock time simulateAsync computes before yielding to the event loop, ms
+const SLICE_TIME = 20;
+
+// A whole simulation from the initial state, pausing every SLICE_STEPS steps so a caller
+// can hand control back to the page; the return value is the finished trajectory
+// Samples are taken on the fixed-step grid at the step nearest each sample time,
+// so sample rates above 1/Δt return one sample per step.
+function* simulationRun(params: SimulationParams, options: SimulateOptions): Generator<void, Trajectory> {
+  const { integrator, sampleRate, maxTime } = { ...defaultSimulateOptions, ...options };
+  const halfStep = integrator.timeStep / 2;
+
+  let state = startSimulation(initializeState(params));
+  const samples: SimulationState[] = [state];
+  const events: SimulationEvent[] = [];
+  let sampleIndex = 1;
+  let steps = 0;
+  let termination: TerminationReason = 'settled';
+
+  while (state.isRunning) {
+    if (state.time >= maxTime - halfStep) {
+      termination = 'maxTime';
+      break;
+    }
+
+    const step = stepSimulation(state, params, integrator);
+    state = step.state;
+    events.push(...step.events);
+    options.onStep?.(step.state, step.events);
+
+    if (state.time >= sampleIndex / sampleRate - halfStep) {
+      samples.push(state);
+      while (state.time >= sampleIndex / sampleRate - halfStep) sampleIndex++;
+    }
+
+    if (options.until?.(state, events)) {
+      termination = 'condition';
+      break;
+    }
+    if (++steps % SLICE_STEPS === 0) yield;
+  }
+
+  // The final state always closes the trajectory
+  if (samples[samples.length - 1].time < state.time) {
+    samples.push(state);
+  } else {
+    samples[samples.length - 1] = state;
+  }
+
+  return { params, integrator, sampleRate, samples, events, termination, finalState: state };
+}
+
+// Run a whole simulation from the initial state without rendering
+export function simulate(params: SimulationParams, options: SimulateOptions = {}): Trajectory {
+  const run = simulationRun(params, options);
+  let result = run.next();
+  while (!result.done) result = run.next();
+  return result.value;
+}
+
+// The same run as simulate, yielding to the event loop every SLICE_TIME ms so a page stays
+// responsive during a long run
+export async function simulateAsync(params: SimulationParams, options: SimulateOptions = {}): Promise<Trajectory> {
+  const run = simulationRun(params, options);
+  let sliceStart = performance.now();
+  let result = run.next();
+  while (!result.done) {
+    if (performance.now() - sliceStart > SLICE_TIME) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      sliceStart = performance.now();
+    }
+    result = run.next();
+  }
+  return result.value;
+}
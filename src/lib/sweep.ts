@@ -0,0 +1,90 @@
+import { SimulationParams } from './physics';
+import { tunableParameters } from './parameters';
+import { SimulateOptions, simulate } from './simulate';
+import { OutcomeSpec, evaluateOutcome, isOutcomeDetermined } from './outcomes';
+import { toCsv } from './csv';
+
+export interface SweepAxis {
+  parameter: string; // TunableParameter id
+  min: number;
+  max: number;
+  steps: number; // number of grid values, including both ends
+}
+
+export interface SweepResult {
+  axes: { parameter: string; label: string; values: number[] }[];
+  outcome: OutcomeSpec;
+  // values[j][i] is the outcome at the i-th x value and j-th y value (a single row in 1D)
+  values: number[][];
+}
+
+// Evenly spaced grid values from min to max
+export function axisValues(axis: SweepAxis): number[] {
+  if (axis.steps <= 1) return [axis.min];
+  return Array.from({ length: axis.steps }, (_, i) => axis.min + (i * (axis.max - axis.min)) / (axis.steps - 1));
+}
+
+// Run the headless engine over a 1D or 2D grid of parameter values
+// Yields to the event loop between runs so a page stays responsive; aborting
+// the signal stops the sweep with the points completed so far left as NaN.
+export async function runSweep(
+  params: SimulationParams,
+  axes: SweepAxis[],
+  outcome: OutcomeSpec,
+  options: SimulateOptions = {},
+  onProgress?: (completed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<SweepResult> {
+  const parameters = tunableParameters(params);
+  const resolved = axes.map((axis) => {
+    const parameter = parameters.find((p) => p.id === axis.parameter);
+    if (!parameter) throw new Error(`Unknown sweep parameter: ${axis.parameter}`);
+    return { parameter, values: axisValues(axis) };
+  });
+
+  const [xAxis, yAxis] = resolved;
+  const rows = yAxis ? yAxis.values : [NaN];
+  const values = rows.map(() => xAxis.values.map(() => NaN));
+  const total = rows.length * xAxis.values.length;
+  let completed = 0;
+
+  for (let j = 0; j < rows.length; j++) {
+    for (let i = 0; i < xAxis.values.length; i++) {
+      if (signal?.aborted) break;
+
+      let pointParams = xAxis.parameter.set(params, xAxis.values[i]);
+      if (yAxis) pointParams = yAxis.parameter.set(pointParams, rows[j]);
+      // Each run stops as soon as its outcome is known
+      const trajectory = simulate(pointParams, {
+        until: (_, events) => isOutcomeDetermined(outcome, events),
+        ...options,
+      });
+      values[j][i] = evaluateOutcome(trajectory, outcome);
+
+      completed++;
+      onProgress?.(completed, total);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  return {
+    axes: resolved.map(({ parameter, values: axisGrid }) => ({
+      parameter: parameter.id,
+      label: parameter.label,
+      values: axisGrid,
+    })),
+    outcome,
+    values,
+  };
+}
+
+// Sweep results as CSV: one row per grid point
+export function sweepToCsv(result: SweepResult, outcomeLabel: string): string {
+  const header = [...result.axes.map((axis) => axis.label), outcomeLabel];
+  const [xAxis, yAxis] = result.axes;
+  const rows = result.values.flatMap((row, j) =>
+    row.map((value, i) => [xAxis.values[i], ...(yAxis ? [yAxis.values[j]] : []), value])
+  );
+  return toCsv([header, ...rows]);
+}
+
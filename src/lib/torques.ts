@@ -0,0 +1,179 @@
+// External torque models acting on a door about its hinge
+export type TorqueKind = 'torsionSpring' | 'hydraulicCloser' | 'viscousDamping' | 'coulombFriction';
+
+// Linear torsion spring: τ = −k(θ − θ_0)
+export interface TorsionSpringModel {
+  kind: 'torsionSpring';
+  enabled: boolean;
+  stiffness: number; // N⋅m/rad (k)
+  restAngle: number; // radians (θ_0)
+}
+
+// Hydraulic door closer: spring towards the closed angle plus a zoned damper.
+// The damper uses the sweep valve until the door is within latchAngle of closing,
+// then the latch valve takes over.
+export interface HydraulicCloserModel {
+  kind: 'hydraulicCloser';
+  enabled: boolean;
+  stiffness: number; // N⋅m/rad (k_c)
+  preload: number; // N⋅m, closing torque at the closed position
+  closedAngle: number; // radians
+  latchAngle: number; // radians before closedAngle where the latch zone begins
+  sweepDamping: number; // N⋅m⋅s/rad (c_sweep)
+  latchDamping: number; // N⋅m⋅s/rad (c_latch)
+}
+
+// Hinge viscous damping: τ = −cω
+export interface ViscousDampingModel {
+  kind: 'viscousDamping';
+  enabled: boolean;
+  coefficient: number; // N⋅m⋅s/rad (c)
+}
+
+// Coulomb (dry) hinge friction: τ = −τ_f sign(ω)
+export interface CoulombFrictionModel {
+  kind: 'coulombFriction';
+  enabled: boolean;
+  frictionTorque: number; // N⋅m (τ_f)
+}
+
+export type TorqueModel =
+  | TorsionSpringModel
+  | HydraulicCloserModel
+  | ViscousDampingModel
+  | CoulombFrictionModel;
+
+// Torque contribution of each model plus the net torque, in N⋅m
+// dissipative is the part of net from dampers and friction (the rest is spring torque)
+export type TorqueBreakdown = Record<TorqueKind, number> & { net: number; dissipative: number };
+
+export const torqueLabels: Record<TorqueKind, string> = {
+  torsionSpring: 'Torsion Spring',
+  hydraulicCloser: 'Hydraulic Closer',
+  viscousDamping: 'Hinge Damping',
+  coulombFriction: 'Coulomb Friction',
+};
+
+// Numeric coefficients of the torque models
+export type TorqueCoefficient = {
+  [K in TorqueKind]: Exclude<keyof Extract<TorqueModel, { kind: K }>, 'kind' | 'enabled'>;
+}[TorqueKind];
+
+export interface TorqueField {
+  key: TorqueCoefficient;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Adjustable coefficients of each torque model
+export const torqueFields: Record<TorqueModel['kind'], TorqueField[]> = {
+  torsionSpring: [
+    { key: 'stiffness', label: 'k (N⋅m/rad)', min: 0, max: 30, step: 0.5 },
+    { key: 'restAngle', label: 'θ₀ (rad)', min: 0, max: 1.57, step: 0.01 },
+  ],
+  hydraulicCloser: [
+    { key: 'stiffness', label: 'k_c (N⋅m/rad)', min: 0, max: 20, step: 0.5 },
+    { key: 'preload', label: 'Preload (N⋅m)', min: 0, max: 20, step: 0.5 },
+    { key: 'sweepDamping', label: 'Sweep c (N⋅m⋅s/rad)', min: 0, max: 60, step: 1 },
+    { key: 'latchDamping', label: 'Latch c (N⋅m⋅s/rad)', min: 0, max: 120, step: 1 },
+    { key: 'latchAngle', label: 'Latch Zone (rad)', min: 0, max: 0.5, step: 0.01 },
+  ],
+  viscousDamping: [
+    { key: 'coefficient', label: 'c (N⋅m⋅s/rad)', min: 0, max: 20, step: 0.1 },
+  ],
+  coulombFriction: [
+    { key: 'frictionTorque', label: 'τ_f (N⋅m)', min: 0, max: 5, step: 0.05 },
+  ],
+};
+
+// Value of a coefficient (NaN if the model has no such coefficient)
+export function torqueCoefficient(model: TorqueModel, key: TorqueCoefficient): number {
+  const coefficients: Partial<Record<TorqueCoefficient, number>> = model;
+  return coefficients[key] ?? NaN;
+}
+
+// Angular speed below which a door is treated as at rest for dry friction (rad/s)
+export const REST_ANGULAR_VELOCITY = 1e-4;
+
+export const zeroTorques: TorqueBreakdown = {
+  torsionSpring: 0,
+  hydraulicCloser: 0,
+  viscousDamping: 0,
+  coulombFriction: 0,
+  net: 0,
+  dissipative: 0,
+};
+
+// Default (disabled) torque models for a door
+// Values are typical of a residential interior door
+export function createDefaultTorqueModels(): TorqueModel[] {
+  return [
+    { kind: 'torsionSpring', enabled: false, stiffness: 5, restAngle: 0 },
+    {
+      kind: 'hydraulicCloser',
+      enabled: false,
+      stiffness: 4,
+      preload: 6,
+      closedAngle: Math.PI / 2,
+      latchAngle: (10 * Math.PI) / 180,
+      sweepDamping: 15,
+      latchDamping: 40,
+    },
+    { kind: 'viscousDamping', enabled: false, coefficient: 2 },
+    { kind: 'coulombFriction', enabled: false, frictionTorque: 0.5 },
+  ];
+}
+
+// Spring and damper torques of a single smooth (non-friction) model at angle θ and angular velocity ω
+function calculateModelTorque(
+  model: TorqueModel,
+  angle: number,
+  angularVelocity: number
+): { spring: number; damper: number } {
+  switch (model.kind) {
+    case 'torsionSpring':
+      return { spring: -model.stiffness * (angle - model.restAngle), damper: 0 };
+    case 'hydraulicCloser': {
+      const remaining = model.closedAngle - angle;
+      const damping = remaining <= model.latchAngle ? model.latchDamping : model.sweepDamping;
+      return { spring: model.preload + model.stiffness * remaining, damper: -damping * angularVelocity };
+    }
+    case 'viscousDamping':
+      return { spring: 0, damper: -model.coefficient * angularVelocity };
+    default:
+      return { spring: 0, damper: 0 };
+  }
+}
+
+// Evaluate all enabled torque models on a door
+// Dry friction opposes motion; at rest it cancels the other torques up to τ_f (static hold)
+export function calculateTorques(
+  models: TorqueModel[],
+  angle: number,
+  angularVelocity: number
+): TorqueBreakdown {
+  const breakdown: TorqueBreakdown = { ...zeroTorques };
+
+  for (const model of models) {
+    if (!model.enabled || model.kind === 'coulombFriction') continue;
+    const { spring, damper } = calculateModelTorque(model, angle, angularVelocity);
+    breakdown[model.kind] += spring + damper;
+    breakdown.dissipative += damper;
+  }
+  let net = breakdown.torsionSpring + breakdown.hydraulicCloser + breakdown.viscousDamping;
+
+  for (const model of models) {
+    if (!model.enabled || model.kind !== 'coulombFriction') continue;
+    const friction = Math.abs(angularVelocity) > REST_ANGULAR_VELOCITY
+      ? -model.frictionTorque * Math.sign(angularVelocity)
+      : -Math.max(-model.frictionTorque, Math.min(model.frictionTorque, net));
+    breakdown.coulombFriction += friction;
+    breakdown.dissipative += friction;
+    net += friction;
+  }
+
+  breakdown.net = net;
+  return breakdown;
+}
@@ -2,34 +2,77 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { 
   SimulationParams, 
   SimulationState, 
-  DataPoint, 
   defaultParams, 
   initializeState, 
-  updateState 
+  createDataPoint,
+  resolveDoors
 } from '@/lib/physics';
+import { SimulationEvent, advanceSimulation, startSimulation } from '@/lib/simulate';
+import { runToCsv, runToJson } from '@/lib/export';
+import { downloadFile } from '@/lib/download';
+import {
+  ReplayState,
+  advanceReplay,
+  createReplayRecording,
+  recordState,
+  recordedStateAt,
+  stepReplayTime,
+} from '@/lib/replay';
+import { MeasuredSeries } from '@/lib/measurements';
+import { PinnedRun, createPinnedRun, pinnedRunColors } from '@/lib/comparison';
+import { IntegratorSettings, defaultIntegratorSettings } from '@/lib/integrators';
+import { CustomPlot, loadCustomPlots, saveCustomPlots } from '@/lib/plots';
+import { TimeRange, appendSample, createDataRecording } from '@/lib/recording';
+import { doorColor } from '@/lib/doorColors';
 import { ThreeScene } from '@/components/ThreeScene';
+import { ReplayControls } from '@/components/ReplayControls';
 import { SimulationGraphs } from '@/components/SimulationGraphs';
 import { ParameterControls } from '@/components/ParameterControls';
 import { SimulationControls } from '@/components/SimulationControls';
 import { DataDisplay } from '@/components/DataDisplay';
+import { EventLog } from '@/components/EventLog';
+import { RunComparison } from '@/components/RunComparison';
+import { NumericalErrorPanel } from '@/components/NumericalErrorPanel';
+import { TorqueControls } from '@/components/TorqueControls';
+import { MeasurementImport } from '@/components/MeasurementImport';
+import { ParameterFitting } from '@/components/ParameterFitting';
+import { DesignSolver } from '@/components/DesignSolver';
+import { NavLink } from '@/components/NavLink';
+import { ArrowRight } from 'lucide-react';
 
 const Index = () => {
   const [params, setParams] = useState<SimulationParams>(defaultParams);
+  const [integratorSettings, setIntegratorSettings] = useState<IntegratorSettings>(defaultIntegratorSettings);
   const [state, setState] = useState<SimulationState>(() => initializeState(params));
-  const [dataHistory, setDataHistory] = useState<DataPoint[]>(() => {
-    const initial = initializeState(defaultParams);
-    return [{
-      time: 0,
-      doorA_omega: defaultParams.initialAngularVelocity,
-      doorB_omega: defaultParams.initialAngularVelocity,
-      doorA_I: initial.doorA.momentOfInertia,
-      doorB_I: initial.doorB.momentOfInertia,
-      doorA_L: initial.doorA.angularMomentum,
-      doorB_L: initial.doorB.angularMomentum,
-    }];
-  });
+  // Samples of dataRef drawn by the graphs, caught up every 50ms of simulated time
+  const [graphedSamples, setGraphedSamples] = useState(1);
+  const [measurements, setMeasurements] = useState<MeasuredSeries[]>([]);
+  const [events, setEvents] = useState<SimulationEvent[]>([]);
+  const [pinnedRuns, setPinnedRuns] = useState<PinnedRun[]>([]);
+  const [pinning, setPinning] = useState(false); // a run being simulated for pinning
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+  const [timeScale, setTimeScale] = useState(1); // simulated seconds per wall-clock second
+  const [wallTime, setWallTime] = useState(0);
+  const [hoverTime, setHoverTime] = useState<number | null>(null); // s, time under the mouse in the graphs
+  const [customPlots, setCustomPlots] = useState<CustomPlot[]>(loadCustomPlots);
+  const [graphRange, setGraphRange] = useState<TimeRange | null>(null); // zoomed time window of the graphs
+  const nextRunIdRef = useRef(0);
   const animationRef = useRef<number>();
   const lastTimeRef = useRef<number>(0);
+  const accumulatorRef = useRef<number>(0);
+  // Full states of the current run, thinned out on long runs, for replay and export
+  const recordingRef = useRef(createReplayRecording(initializeState(defaultParams)));
+  // Graphed samples of every fixed step of the current run
+  const dataRef = useRef(createDataRecording(createDataPoint(initializeState(defaultParams))));
+  const eventsRef = useRef<SimulationEvent[]>([]);
+  // Live state read by the animation loop, which steps it outside any state updater
+  // (updaters may run more than once, and stepping records samples and events)
+  const stateRef = useRef(state);
+
+  const commitState = (next: SimulationState) => {
+    stateRef.current = next;
+    setState(next);
+  };
 
   // Animation loop
   const animate = useCallback((timestamp: number) => {
@@ -40,32 +83,37 @@ const Index = () => {
     const deltaTime = (timestamp - lastTimeRef.current) / 1000;
     lastTimeRef.current = timestamp;
 
-    setState((prevState) => {
-      if (!prevState.isRunning) return prevState;
-      
-      const newState = updateState(prevState, params, deltaTime);
-      
-      // Record data point every 50ms
-      if (Math.floor(newState.time * 20) > Math.floor(prevState.time * 20)) {
-        setDataHistory((prev) => [
-          ...prev.slice(-200), // Keep last 200 points
-          {
-            time: newState.time,
-            doorA_omega: newState.doorA.angularVelocity,
-            doorB_omega: newState.doorB.angularVelocity,
-            doorA_I: newState.doorA.momentOfInertia,
-            doorB_I: newState.doorB.momentOfInertia,
-            doorA_L: newState.doorA.angularMomentum,
-            doorB_L: newState.doorB.angularMomentum,
-          },
-        ]);
+    const prevState = stateRef.current;
+    if (!prevState.isRunning) return;
+
+    const result = advanceSimulation(
+      prevState,
+      params,
+      deltaTime,
+      timeScale,
+      accumulatorRef.current,
+      integratorSettings,
+      (stepState, events) => {
+        recordState(recordingRef.current, stepState);
+        appendSample(dataRef.current, createDataPoint(stepState));
+        eventsRef.current.push(...events);
       }
-      
-      return newState;
-    });
+    );
+    accumulatorRef.current = result.accumulator;
+    // Only the wall time actually simulated, so a stalled tab does not skew sim/wall time
+    setWallTime((prev) => prev + result.wallTime);
+    const newState = result.state;
+    stateRef.current = newState;
+    setState(newState);
+    if (result.events.length > 0) setEvents([...eventsRef.current]);
+
+    // Redraw the graphs every 50ms of simulated time
+    if (Math.floor(newState.time * 20) > Math.floor(prevState.time * 20)) {
+      setGraphedSamples(dataRef.current.samples.length);
+    }
 
     animationRef.current = requestAnimationFrame(animate);
-  }, [params]);
+  }, [params, integratorSettings, timeScale]);
 
   useEffect(() => {
     if (state.isRunning) {
@@ -82,33 +130,115 @@ const Index = () => {
     };
   }, [state.isRunning, animate]);
 
+  // Replay loop: move through the recording at the chosen speed and direction
+  const isReplaying = replay?.playing ?? false;
+  useEffect(() => {
+    if (!isReplaying) return;
+    let frame = 0;
+    let last = 0;
+
+    const tick = (timestamp: number) => {
+      const frameTime = last === 0 ? 0 : (timestamp - last) / 1000;
+      last = timestamp;
+      const recording = recordingRef.current.states;
+      setReplay((prev) => prev && advanceReplay(prev, frameTime, recording[0].time, recording[recording.length - 1].time));
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isReplaying]);
+
+  // Keep the custom plot layouts with the session
+  useEffect(() => {
+    saveCustomPlots(customPlots);
+  }, [customPlots]);
+
   const handleStart = () => {
-    setState((prev) => ({ ...prev, isRunning: true, phase: 'phase1' }));
+    setReplay(null);
+    commitState(startSimulation(stateRef.current));
   };
 
   const handlePause = () => {
-    setState((prev) => ({ ...prev, isRunning: false }));
+    commitState({ ...stateRef.current, isRunning: false });
   };
 
-  const handleReset = () => {
-    setState(initializeState(params));
-    setDataHistory([{
-      time: 0,
-      doorA_omega: params.initialAngularVelocity,
-      doorB_omega: params.initialAngularVelocity,
-      doorA_I: initializeState(params).doorA.momentOfInertia,
-      doorB_I: initializeState(params).doorB.momentOfInertia,
-      doorA_L: initializeState(params).doorA.angularMomentum,
-      doorB_L: initializeState(params).doorB.angularMomentum,
-    }]);
+  // Reset to the initial state of the given parameters
+  // (a just-changed params state is not visible until the next render)
+  const resetSimulation = (resetParams: SimulationParams) => {
+    const initial = initializeState(resetParams);
+    commitState(initial);
+    dataRef.current = createDataRecording(createDataPoint(initial));
+    setGraphedSamples(1);
+    recordingRef.current = createReplayRecording(initial);
+    eventsRef.current = [];
+    setEvents([]);
+    setReplay(null);
+    setGraphRange(null);
+    setWallTime(0);
     lastTimeRef.current = 0;
+    accumulatorRef.current = 0;
   };
 
+  const handleReset = () => resetSimulation(params);
+
   const handleParamsChange = (newParams: SimulationParams) => {
     setParams(newParams);
+    resetSimulation(newParams);
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const run = {
+      params,
+      integrator: integratorSettings,
+      samples: recordingRef.current.states,
+      events: eventsRef.current,
+    };
+    if (format === 'csv') {
+      downloadFile('door-simulation.csv', runToCsv(run), 'text/csv');
+    } else {
+      downloadFile('door-simulation.json', runToJson(run), 'application/json');
+    }
+  };
+
+  // Simulate the current parameters to the end and add the run to the comparison
+  // The run is simulated here, not in the updater, which may be called more than once
+  const handlePin = async (name: string) => {
+    const id = nextRunIdRef.current++;
+    const color = pinnedRunColors[id % pinnedRunColors.length];
+    setPinning(true);
+    try {
+      const run = await createPinnedRun(id, name, color, params, integratorSettings);
+      setPinnedRuns((prev) => [...prev, run]);
+    } finally {
+      setPinning(false);
+    }
+  };
+
+  const handleStepFrame = (direction: 1 | -1) => {
+    const recording = recordingRef.current.states;
+    setReplay((prev) => {
+      const time = prev?.time ?? recording[recording.length - 1].time;
+      return { speed: 1, direction: 1, ...prev, time: stepReplayTime(recording, time, direction), playing: false };
+    });
+  };
+
+  // Clicking a graph jumps the replay there (the recording is still growing while running)
+  const handleSelectTime = (time: number) => {
+    if (state.isRunning) return;
+    setReplay((prev) => ({ speed: 1, direction: 1, ...prev, time, playing: false }));
+  };
+
+  const handleIntegratorChange = (newSettings: IntegratorSettings) => {
+    setIntegratorSettings(newSettings);
     handleReset();
   };
 
+  // The scene, readouts and graph cursor follow the replay position while replaying
+  const recording = recordingRef.current.states;
+  const displayState = replay ? recordedStateAt(recording, replay.time) : state;
+  const ghostState = hoverTime !== null ? recordedStateAt(recording, hoverTime) : undefined;
+
   return (
     <div className="min-h-screen bg-background text-foreground p-4 lg:p-6">
       {/* Header */}
@@ -117,8 +247,16 @@ const Index = () => {
           <span className="text-primary">Conservation</span> of Angular Momentum
         </h1>
         <p className="text-muted-foreground mt-1 text-sm lg:text-base">
-          Sliding-Mass Door System — Two-Door Comparison Simulation
+          Sliding-Mass Door System — Multi-Door Comparison Simulation
         </p>
+        <NavLink
+          to="/sweep"
+          state={{ params, integratorSettings }}
+          className="inline-flex items-center gap-1 mt-2 text-xs font-mono text-muted-foreground hover:text-primary"
+        >
+          Parameter Sweep
+          <ArrowRight className="w-3 h-3" />
+        </NavLink>
       </header>
 
       {/* Controls Bar */}
@@ -128,6 +266,12 @@ const Index = () => {
           onStart={handleStart}
           onPause={handlePause}
           onReset={handleReset}
+          integratorSettings={integratorSettings}
+          onIntegratorChange={handleIntegratorChange}
+          onExport={handleExport}
+          timeScale={timeScale}
+          onTimeScaleChange={setTimeScale}
+          wallTime={wallTime}
         />
       </div>
 
@@ -142,12 +286,51 @@ const Index = () => {
               disabled={state.isRunning}
             />
           </div>
+
+          <div className="simulation-panel animate-slide-in" style={{ animationDelay: '0.15s' }}>
+            <TorqueControls
+              params={params}
+              onParamsChange={handleParamsChange}
+              disabled={state.isRunning}
+            />
+          </div>
+
+          <div className="simulation-panel animate-slide-in" style={{ animationDelay: '0.18s' }}>
+            <MeasurementImport
+              doors={params.doors}
+              data={dataRef.current.samples}
+              measurements={measurements}
+              onMeasurementsChange={setMeasurements}
+            />
+          </div>
+
+          <div className="simulation-panel animate-slide-in" style={{ animationDelay: '0.19s' }}>
+            <ParameterFitting
+              params={params}
+              measurements={measurements}
+              integratorSettings={integratorSettings}
+              onApply={handleParamsChange}
+              disabled={state.isRunning}
+            />
+          </div>
+
+          <div className="simulation-panel animate-slide-in" style={{ animationDelay: '0.195s' }}>
+            <DesignSolver
+              params={params}
+              integratorSettings={integratorSettings}
+              onApply={handleParamsChange}
+              disabled={state.isRunning}
+            />
+          </div>
           
           {/* Physics Info */}
           <div className="simulation-panel animate-slide-in text-xs font-mono" style={{ animationDelay: '0.2s' }}>
             <h3 className="text-primary uppercase tracking-wider mb-3">Physics</h3>
             <div className="space-y-2 text-muted-foreground">
-              <p>• L = I × ω (conserved)</p>
+              <p>• L = I × ω (conserved when Στ = 0)</p>
+              <p>• dL/dt = Στ (hinge torques)</p>
+              <p>• KE = ½Iω² + ½mṙ² (not conserved)</p>
+              <p>• Stop: ω' = −eω, J = I(ω' − ω)</p>
               <p>• I = I_d + m × r²</p>
               <p>• ω₂ = ω₁ × (I₁/I₂)</p>
               <p className="text-primary/70 pt-2 border-t border-border/50">
@@ -160,29 +343,74 @@ const Index = () => {
         {/* Center Column - 3D View */}
         <div className="lg:col-span-5">
           <div className="simulation-panel h-[400px] lg:h-[500px] animate-fade-in" style={{ animationDelay: '0.15s' }}>
-            <ThreeScene state={state} params={params} />
+            <ThreeScene state={displayState} params={params} ghostState={ghostState} />
           </div>
+
+          {!state.isRunning && recording.length > 1 && (
+            <div className="simulation-panel mt-4 animate-fade-in">
+              <ReplayControls
+                replay={replay}
+                startTime={recording[0].time}
+                endTime={recording[recording.length - 1].time}
+                timeStep={integratorSettings.timeStep}
+                onReplayChange={setReplay}
+                onStepFrame={handleStepFrame}
+              />
+            </div>
+          )}
           
           {/* Data Display */}
           <div className="mt-4 animate-fade-in" style={{ animationDelay: '0.25s' }}>
-            <DataDisplay state={state} />
+            <DataDisplay state={displayState} params={params} />
+          </div>
+
+          <div className="simulation-panel mt-4 animate-fade-in" style={{ animationDelay: '0.26s' }}>
+            <RunComparison runs={pinnedRuns} pinning={pinning} onPin={handlePin} onRunsChange={setPinnedRuns} />
+          </div>
+
+          <div className="simulation-panel mt-4 animate-fade-in" style={{ animationDelay: '0.27s' }}>
+            <EventLog events={events} doors={params.doors} />
+          </div>
+
+          <div className="simulation-panel mt-4 animate-fade-in" style={{ animationDelay: '0.28s' }}>
+            <NumericalErrorPanel state={displayState} params={params} recording={dataRef.current} sampleCount={graphedSamples} />
           </div>
         </div>
 
         {/* Right Column - Graphs */}
         <div className="lg:col-span-4">
           <div className="simulation-panel h-[500px] lg:h-full animate-slide-in" style={{ animationDelay: '0.2s' }}>
-            <SimulationGraphs data={dataHistory} />
+            <SimulationGraphs
+              recording={dataRef.current}
+              sampleCount={graphedSamples}
+              doors={resolveDoors(params)}
+              measurements={measurements}
+              events={events}
+              pinnedRuns={pinnedRuns}
+              cursorTime={replay?.time}
+              hoverTime={hoverTime}
+              onHoverTime={setHoverTime}
+              onSelectTime={handleSelectTime}
+              customPlots={customPlots}
+              onCustomPlotsChange={setCustomPlots}
+              timeRange={graphRange}
+              onTimeRangeChange={setGraphRange}
+            />
           </div>
         </div>
       </div>
 
       {/* Footer */}
       <footer className="mt-6 text-center text-xs text-muted-foreground font-mono animate-fade-in" style={{ animationDelay: '0.3s' }}>
-        <p>Phase I: Door rotates, mass slides outward (Door A) — Angular momentum conserved</p>
+        <p>Phase I: Doors rotate, masses slide outward — Angular momentum conserved</p>
         <p className="mt-1">
-          <span className="text-primary">●</span> Door A (Sliding Mass) &nbsp;|&nbsp;
-          <span className="text-accent">●</span> Door B (Standard)
+          {params.doors.map((door, i) => (
+            <span key={i}>
+              {i > 0 && <>&nbsp;|&nbsp;</>}
+              <span style={{ color: doorColor(i).css }}>●</span>{' '}
+              {door.name} ({door.slidingMasses.length > 0 ? 'Sliding Mass' : 'Standard'})
+            </span>
+          ))}
         </p>
       </footer>
     </div>
@@ -0,0 +1,306 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { SimulationParams, defaultParams } from '@/lib/physics';
+import { IntegratorSettings, defaultIntegratorSettings } from '@/lib/integrators';
+import { OutcomeMetric, OutcomeSpec, defaultOutcome, outcomeLabels, outcomeName } from '@/lib/outcomes';
+import { SweepAxis, SweepResult, runSweep, sweepToCsv } from '@/lib/sweep';
+import { TunableParameter, tunableParameters } from '@/lib/parameters';
+import { downloadFile } from '@/lib/download';
+import { NavLink } from '@/components/NavLink';
+import { SweepResultChart } from '@/components/SweepResultChart';
+import { ArrowLeft, Download, Play, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+
+// Parameters and integrator handed over from the simulation page
+interface SweepLocationState {
+  params?: SimulationParams;
+  integratorSettings?: IntegratorSettings;
+}
+
+// Upper limit on grid values per axis, to keep a 2D sweep to a few thousand runs
+const MAX_STEPS = 50;
+
+function createAxis(parameter: TunableParameter): SweepAxis {
+  return { parameter: parameter.id, min: parameter.min, max: parameter.max, steps: 11 };
+}
+
+// Declared outside Sweep so its inputs keep focus across renders
+const AxisEditor = ({
+  title,
+  axis,
+  parameters,
+  onChange,
+  disabled,
+}: {
+  title: string;
+  axis: SweepAxis;
+  parameters: TunableParameter[];
+  onChange: (axis: SweepAxis) => void;
+  disabled?: boolean;
+}) => (
+  <div className="space-y-2">
+    <Label className="text-xs text-muted-foreground">{title}</Label>
+    <Select
+      value={axis.parameter}
+      onValueChange={(id) => {
+        const parameter = parameters.find((p) => p.id === id);
+        if (parameter) onChange(createAxis(parameter));
+      }}
+      disabled={disabled}
+    >
+      <SelectTrigger className="h-9 font-mono text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {parameters.map((parameter) => (
+          <SelectItem key={parameter.id} value={parameter.id} className="font-mono text-xs">
+            {parameter.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <div className="grid grid-cols-3 gap-2">
+      {(['min', 'max', 'steps'] as const).map((key) => (
+        <div key={key} className="space-y-1">
+          <span className="control-label">{key}</span>
+          <Input
+            type="number"
+            value={axis[key]}
+            step={key === 'steps' ? 1 : 'any'}
+            min={key === 'steps' ? 2 : undefined}
+            max={key === 'steps' ? MAX_STEPS : undefined}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (!Number.isFinite(value)) return;
+              onChange({
+                ...axis,
+                [key]: key === 'steps' ? Math.max(2, Math.min(MAX_STEPS, Math.round(value))) : value,
+              });
+            }}
+            disabled={disabled}
+            className="h-8 font-mono text-xs"
+          />
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const Sweep = () => {
+  const location = useLocation();
+  const handover = (location.state ?? {}) as SweepLocationState;
+  const [params] = useState<SimulationParams>(() => handover.params ?? defaultParams);
+  const [integratorSettings] = useState<IntegratorSettings>(
+    () => handover.integratorSettings ?? defaultIntegratorSettings
+  );
+
+  const parameters = useMemo(() => tunableParameters(params), [params]);
+  const findParameter = (id: string) => parameters.find((p) => p.id === id) ?? parameters[0];
+
+  const [xAxis, setXAxis] = useState<SweepAxis>(() => createAxis(findParameter('door.0.mass.0.finalRadius')));
+  const [yAxis, setYAxis] = useState<SweepAxis>(() => createAxis(findParameter('door.0.mass.0.slideDuration')));
+  const [twoDimensional, setTwoDimensional] = useState(false);
+  const [outcome, setOutcome] = useState<OutcomeSpec>(() => ({
+    ...defaultOutcome,
+    referenceDoor: Math.min(defaultOutcome.referenceDoor, params.doors.length - 1),
+  }));
+
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running sweep when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const doorNames = params.doors.map((door) => door.name);
+  const outcomeLabel = outcomeName(outcome, doorNames);
+  const isRunning = progress !== null;
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult(null);
+    setProgress({ completed: 0, total: 0 });
+
+    const sweep = await runSweep(
+      params,
+      twoDimensional ? [xAxis, yAxis] : [xAxis],
+      outcome,
+      { integrator: integratorSettings },
+      (completed, total) => setProgress({ completed, total }),
+      controller.signal
+    );
+
+    // A cancelled sweep leaves the page to whichever sweep replaced it
+    if (abortRef.current !== controller) return;
+    if (!controller.signal.aborted) setResult(sweep);
+    setProgress(null);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  const handleExportCsv = () => {
+    if (!result) return;
+    downloadFile('sweep.csv', sweepToCsv(result, outcomeLabel), 'text/csv');
+  };
+
+  const handleExportJson = () => {
+    if (!result) return;
+    const exported = { ...result, outcomeLabel, params, integrator: integratorSettings };
+    downloadFile('sweep.json', JSON.stringify(exported, null, 2), 'application/json');
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-4 lg:p-6">
+      {/* Header */}
+      <header className="mb-6 animate-fade-in">
+        <NavLink to="/" className="inline-flex items-center gap-1 text-xs font-mono text-muted-foreground hover:text-primary">
+          <ArrowLeft className="w-3 h-3" />
+          Simulation
+        </NavLink>
+        <h1 className="text-2xl lg:text-3xl font-bold font-mono text-foreground mt-2">
+          <span className="text-primary">Parameter</span> Sweep
+        </h1>
+        <p className="text-muted-foreground mt-1 text-sm lg:text-base">
+          Run the simulation over a grid of parameter values and compare one outcome
+        </p>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-4">
+        {/* Left Column - Sweep Setup */}
+        <div className="lg:col-span-4 space-y-4">
+          <div className="simulation-panel space-y-4 animate-slide-in">
+            <h3 className="text-sm font-mono text-primary uppercase tracking-wider">Outcome</h3>
+            <Select
+              value={outcome.metric}
+              onValueChange={(metric) => setOutcome({ ...outcome, metric: metric as OutcomeMetric })}
+              disabled={isRunning}
+            >
+              <SelectTrigger className="h-9 font-mono text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(outcomeLabels) as OutcomeMetric[]).map((metric) => (
+                  <SelectItem key={metric} value={metric} className="font-mono text-xs">
+                    {outcomeLabels[metric]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-2 gap-2">
+              {(outcome.metric === 'closingTimeRatio' ? ['door', 'referenceDoor'] as const : ['door'] as const).map((key) => (
+                <div key={key} className="space-y-1">
+                  <span className="control-label">{key === 'door' ? 'Door' : 'Relative to'}</span>
+                  <Select
+                    value={String(outcome[key])}
+                    onValueChange={(door) => setOutcome({ ...outcome, [key]: Number(door) })}
+                    disabled={isRunning}
+                  >
+                    <SelectTrigger className="h-8 font-mono text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {doorNames.map((name, i) => (
+                        <SelectItem key={i} value={String(i)} className="font-mono text-xs">
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="simulation-panel space-y-4 animate-slide-in" style={{ animationDelay: '0.1s' }}>
+            <h3 className="text-sm font-mono text-primary uppercase tracking-wider">Grid</h3>
+            <AxisEditor
+              title="X Axis"
+              axis={xAxis}
+              parameters={parameters}
+              onChange={setXAxis}
+              disabled={isRunning}
+            />
+            <div className="flex justify-between items-center pt-3 border-t border-border/50">
+              <Label htmlFor="sweep-2d" className="text-xs text-muted-foreground">
+                Second Parameter (Heat-Map)
+              </Label>
+              <Switch
+                id="sweep-2d"
+                checked={twoDimensional}
+                onCheckedChange={setTwoDimensional}
+                disabled={isRunning}
+              />
+            </div>
+            {twoDimensional && (
+              <AxisEditor
+                title="Y Axis"
+                axis={yAxis}
+                parameters={parameters}
+                onChange={setYAxis}
+                disabled={isRunning}
+              />
+            )}
+            <p className="text-xs font-mono text-muted-foreground">
+              {twoDimensional ? xAxis.steps * yAxis.steps : xAxis.steps} runs · {integratorSettings.method.toUpperCase()} · Δt = {integratorSettings.timeStep * 1000} ms
+            </p>
+            {isRunning ? (
+              <Button onClick={handleCancel} variant="secondary" className="w-full gap-2 font-mono">
+                <Square className="w-4 h-4" />
+                Cancel
+              </Button>
+            ) : (
+              <Button onClick={handleRun} className="w-full gap-2 font-mono glow-primary">
+                <Play className="w-4 h-4" />
+                Run Sweep
+              </Button>
+            )}
+            {progress && (
+              <Progress value={progress.total > 0 ? (100 * progress.completed) / progress.total : 0} className="h-2" />
+            )}
+          </div>
+        </div>
+
+        {/* Right Column - Results */}
+        <div className="lg:col-span-8">
+          <div className="simulation-panel space-y-4 animate-fade-in">
+            <div className="flex justify-between items-center">
+              <h3 className="text-sm font-mono text-primary flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-primary" />
+                {outcomeLabel}
+              </h3>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" className="gap-1 font-mono text-xs" onClick={handleExportCsv} disabled={!result}>
+                  <Download className="w-3 h-3" />
+                  CSV
+                </Button>
+                <Button variant="outline" size="sm" className="gap-1 font-mono text-xs" onClick={handleExportJson} disabled={!result}>
+                  <Download className="w-3 h-3" />
+                  JSON
+                </Button>
+              </div>
+            </div>
+            {result ? (
+              <SweepResultChart result={result} outcomeLabel={outcomeLabel} />
+            ) : (
+              <p className="text-sm font-mono text-muted-foreground py-24 text-center">
+                {isRunning ? `Running ${progress.completed} / ${progress.total}…` : 'Set up a grid and run the sweep.'}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Sweep;